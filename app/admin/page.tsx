@@ -6,9 +6,21 @@ import Link from 'next/link';
 import { supabase } from '@/lib/supabase/browser';
 import { useAuth } from '@/components/Auth/AuthProvider';
 import type { ProfileRole } from '@/lib/supabase/browser';
+import VerificationRulesPanel from '@/components/Admin/VerificationRulesPanel';
+import ModerationPanel from '@/components/Admin/ModerationPanel';
+import AuditLogPanel from '@/components/Admin/AuditLogPanel';
 
 type ProfileRow = { id: string; email: string | null; role: string };
 
+type AdminTab = 'roles' | 'rules' | 'moderation' | 'audit';
+
+const ADMIN_TABS: Array<{ id: AdminTab; label: string }> = [
+  { id: 'roles', label: 'Roles & invites' },
+  { id: 'rules', label: 'Verification rules' },
+  { id: 'moderation', label: 'Moderation' },
+  { id: 'audit', label: 'Audit log' },
+];
+
 export default function AdminPage() {
   const router = useRouter();
   const { user, role, loading: authLoading } = useAuth();
@@ -19,6 +31,7 @@ export default function AdminPage() {
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteLoading, setInviteLoading] = useState(false);
   const [inviteMessage, setInviteMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [tab, setTab] = useState<AdminTab>('roles');
 
   useEffect(() => {
     if (authLoading) return;
@@ -128,9 +141,9 @@ export default function AdminPage() {
     <div className="min-h-screen p-6 sm:p-8">
       <header className="flex flex-wrap items-center justify-between gap-4 border-b-2 border-white pb-6 mb-8">
         <div>
-          <h1 className="ice-heading text-2xl">Admin — Manage roles</h1>
+          <h1 className="ice-heading text-2xl">Admin</h1>
           <p className="ice-mono text-xs text-white/60 mt-1">
-            Assign trusted or admin role to users. Only admins can update roles.
+            Manage roles, verification rules and moderation, and review the audit log. Only admins can access this page.
           </p>
         </div>
         <Link href="/" className="ice-button ice-button--ghost">
@@ -144,96 +157,118 @@ export default function AdminPage() {
         </div>
       )}
 
-      <section className="ice-panel mb-8">
-        <h2 className="ice-heading text-lg mb-2">Invite trusted verifier</h2>
-        <p className="ice-mono text-xs text-white/60 mb-4">
-          Send an invite link to an email. When they sign in, they will get the trusted role and can confirm sightings (Level 3).
-        </p>
-        <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3">
-          <div className="flex-1 min-w-[200px]">
-            <label htmlFor="invite-email" className="ice-mono text-xs text-white/80 block mb-1">
-              Email
-            </label>
-            <input
-              id="invite-email"
-              type="email"
-              value={inviteEmail}
-              onChange={(e) => setInviteEmail(e.target.value)}
-              placeholder="verifier@example.com"
-              required
-              className="w-full bg-black border-2 border-[var(--ice-border)] rounded px-3 py-2 text-white placeholder:text-white/40"
-            />
-          </div>
+      <nav className="flex flex-wrap items-center gap-2 mb-8">
+        {ADMIN_TABS.map(({ id, label }) => (
           <button
-            type="submit"
-            disabled={inviteLoading}
-            className="ice-button ice-button--alert"
+            key={id}
+            onClick={() => setTab(id)}
+            className={`ice-pill ${tab === id ? '' : 'text-white/60'}`}
           >
-            {inviteLoading ? 'Sending…' : 'Send invite'}
+            {label}
           </button>
-        </form>
-        {inviteMessage && (
-          <div
-            className={`mt-3 p-3 border-2 ${
-              inviteMessage.type === 'success' ? 'border-[var(--ice-yellow)]' : 'border-[var(--ice-red)]'
-            }`}
-          >
-            <p className={`ice-mono text-xs ${inviteMessage.type === 'success' ? 'text-[var(--ice-yellow)]' : 'text-[var(--ice-red)]'}`}>
-              {inviteMessage.text}
+        ))}
+      </nav>
+
+      {tab === 'rules' && <VerificationRulesPanel />}
+
+      {tab === 'moderation' && <ModerationPanel />}
+
+      {tab === 'audit' && <AuditLogPanel actors={profiles} />}
+
+      {tab === 'roles' && (
+        <>
+          <section className="ice-panel mb-8">
+            <h2 className="ice-heading text-lg mb-2">Invite trusted verifier</h2>
+            <p className="ice-mono text-xs text-white/60 mb-4">
+              Send an invite link to an email. When they sign in, they will get the trusted role and can confirm sightings (Level 3).
             </p>
-          </div>
-        )}
-      </section>
-
-      {loading ? (
-        <p className="ice-mono text-white/60">Loading profiles…</p>
-      ) : (
-        <div className="ice-panel overflow-x-auto">
-          <table className="w-full ice-mono text-sm">
-            <thead>
-              <tr className="border-b-2 border-white/20">
-                <th className="text-left px-4 py-3 text-white/60">Email</th>
-                <th className="text-left px-4 py-3 text-white/60">User ID</th>
-                <th className="text-left px-4 py-3 text-white/60">Role</th>
-              </tr>
-            </thead>
-            <tbody>
-              {profiles.length === 0 ? (
-                <tr>
-                  <td colSpan={3} className="px-4 py-8 text-center text-white/50">
-                    No profiles (or not an admin).
-                  </td>
-                </tr>
-              ) : (
-                profiles.map((p) => (
-                  <tr key={p.id} className="border-b border-white/10">
-                    <td className="px-4 py-3 text-white/80">{p.email ?? '—'}</td>
-                    <td className="px-4 py-3 text-white/50 font-mono text-xs">{p.id}</td>
-                    <td className="px-4 py-3">
-                      <select
-                        value={p.role}
-                        disabled={updatingId === p.id}
-                        onChange={(e) =>
-                          handleRoleChange(p.id, e.target.value as ProfileRole)
-                        }
-                        className="bg-black border-2 border-[var(--ice-border)] rounded px-2 py-1 text-white"
-                      >
-                        <option value="anonymous">anonymous</option>
-                        <option value="trusted">trusted</option>
-                        <option value="admin">admin</option>
-                      </select>
-                      {updatingId === p.id && (
-                        <span className="ice-mono text-xs text-white/50 ml-2">
-                          Updating…
-                        </span>
-                      )}
-                    </td>
+            <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-[200px]">
+                <label htmlFor="invite-email" className="ice-mono text-xs text-white/80 block mb-1">
+                  Email
+                </label>
+                <input
+                  id="invite-email"
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="verifier@example.com"
+                  required
+                  className="w-full bg-black border-2 border-[var(--ice-border)] rounded px-3 py-2 text-white placeholder:text-white/40"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={inviteLoading}
+                className="ice-button ice-button--alert"
+              >
+                {inviteLoading ? 'Sending…' : 'Send invite'}
+              </button>
+            </form>
+            {inviteMessage && (
+              <div
+                className={`mt-3 p-3 border-2 ${
+                  inviteMessage.type === 'success' ? 'border-[var(--ice-yellow)]' : 'border-[var(--ice-red)]'
+                }`}
+              >
+                <p className={`ice-mono text-xs ${inviteMessage.type === 'success' ? 'text-[var(--ice-yellow)]' : 'text-[var(--ice-red)]'}`}>
+                  {inviteMessage.text}
+                </p>
+              </div>
+            )}
+          </section>
+
+          {loading ? (
+            <p className="ice-mono text-white/60">Loading profiles…</p>
+          ) : (
+            <div className="ice-panel overflow-x-auto">
+              <table className="w-full ice-mono text-sm">
+                <thead>
+                  <tr className="border-b-2 border-white/20">
+                    <th className="text-left px-4 py-3 text-white/60">Email</th>
+                    <th className="text-left px-4 py-3 text-white/60">User ID</th>
+                    <th className="text-left px-4 py-3 text-white/60">Role</th>
                   </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
+                </thead>
+                <tbody>
+                  {profiles.length === 0 ? (
+                    <tr>
+                      <td colSpan={3} className="px-4 py-8 text-center text-white/50">
+                        No profiles (or not an admin).
+                      </td>
+                    </tr>
+                  ) : (
+                    profiles.map((p) => (
+                      <tr key={p.id} className="border-b border-white/10">
+                        <td className="px-4 py-3 text-white/80">{p.email ?? '—'}</td>
+                        <td className="px-4 py-3 text-white/50 font-mono text-xs">{p.id}</td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={p.role}
+                            disabled={updatingId === p.id}
+                            onChange={(e) =>
+                              handleRoleChange(p.id, e.target.value as ProfileRole)
+                            }
+                            className="bg-black border-2 border-[var(--ice-border)] rounded px-2 py-1 text-white"
+                          >
+                            <option value="anonymous">anonymous</option>
+                            <option value="trusted">trusted</option>
+                            <option value="admin">admin</option>
+                          </select>
+                          {updatingId === p.id && (
+                            <span className="ice-mono text-xs text-white/50 ml-2">
+                              Updating…
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
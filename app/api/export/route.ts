@@ -0,0 +1,178 @@
+import { NextResponse } from 'next/server';
+import { getAnonClient, getServiceClient } from '@/lib/supabase/server';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/api/rateLimit';
+import type { SightingStatus } from '@/lib/supabase/browser';
+import { SIGHTING_STATUSES } from '@/lib/sightings/status';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFooter,
+  exportHeader,
+  exportRow,
+  getMediaPublicUrl,
+  type ExportFormat,
+  type ExportSighting,
+} from '@/lib/sightings/export';
+
+export const dynamic = 'force-dynamic';
+
+const IP_LIMIT: RateLimitRule = { bucket: 'export:ip', windowSeconds: 60 * 60, max: 30 };
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 50000;
+
+type ExportFilters = {
+  from: string | null;
+  to: string | null;
+  statuses: SightingStatus[] | null;
+  activityType: string | null;
+  bbox: { west: number; south: number; east: number; north: number } | null;
+};
+
+function parseTime(value: string | null): string | null | undefined {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// ilike without wildcards: activity types are matched case-insensitively but literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+function parseFilters(params: URLSearchParams): { ok: true; value: ExportFilters } | { ok: false; error: string } {
+  const from = parseTime(params.get('from'));
+  const to = parseTime(params.get('to'));
+  if (from === undefined || to === undefined) {
+    return { ok: false, error: 'from and to must be ISO 8601 dates' };
+  }
+
+  let statuses: SightingStatus[] | null = null;
+  const statusParam = params.get('status');
+  if (statusParam) {
+    statuses = statusParam.split(',').map((s) => s.trim()) as SightingStatus[];
+    if (statuses.some((s) => !SIGHTING_STATUSES.includes(s))) {
+      return { ok: false, error: `status must be a comma-separated list of: ${SIGHTING_STATUSES.join(', ')}` };
+    }
+  }
+
+  const activityType = params.get('activity_type')?.trim() || null;
+
+  let bbox: ExportFilters['bbox'] = null;
+  const bboxParam = params.get('bbox');
+  if (bboxParam) {
+    const [west, south, east, north] = bboxParam.split(',').map(Number);
+    const valid =
+      [west, south, east, north].every(Number.isFinite) &&
+      south >= -90 && north <= 90 && south <= north &&
+      west >= -180 && east <= 180 && west <= east;
+    if (!valid) {
+      return { ok: false, error: 'bbox must be west,south,east,north in degrees' };
+    }
+    bbox = { west, south, east, north };
+  }
+
+  return { ok: true, value: { from, to, statuses, activityType, bbox } };
+}
+
+/**
+ * Export visible sightings as CSV, GeoJSON or KML, newest first.
+ * Query: format, from, to, status (comma-separated), activity_type, bbox (west,south,east,north).
+ * Reads through the anon client so RLS decides what is exported; rows are streamed a page at a time.
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const format = (params.get('format') ?? 'csv').toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+    const filters = parseFilters(params);
+    if (!filters.ok) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+
+    const ip = getClientIp(request);
+    if (ip && !(await consumeRateLimit(getServiceClient(), IP_LIMIT, ip))) {
+      return NextResponse.json(
+        { error: 'Too many exports. Please wait before trying again.' },
+        { status: 429, headers: { 'Retry-After': String(IP_LIMIT.windowSeconds) } }
+      );
+    }
+
+    const anon = getAnonClient();
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const { from, to, statuses, activityType, bbox } = filters.value;
+
+    const fetchPage = async (offset: number) => {
+      let query = anon
+        .from('sightings')
+        .select(EXPORT_COLUMNS)
+        .eq('moderation_state', 'visible')
+        .order('event_time', { ascending: false })
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (from) query = query.gte('event_time', from);
+      if (to) query = query.lte('event_time', to);
+      if (statuses) query = query.in('status', statuses);
+      if (activityType) query = query.ilike('activity_type', escapeLike(activityType));
+      if (bbox) {
+        query = query.gte('lat', bbox.south).lte('lat', bbox.north).gte('lng', bbox.west).lte('lng', bbox.east);
+      }
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as unknown as ExportSighting[];
+    };
+
+    // Fetch the first page up front so query errors still get a JSON error response
+    const firstPage = await fetchPage(0);
+
+    const encoder = new TextEncoder();
+    let offset = 0;
+    let page: ExportSighting[] | null = firstPage;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(exportHeader(format)));
+      },
+      async pull(controller) {
+        try {
+          const rows = page ?? (await fetchPage(offset));
+          page = null;
+          const chunk = rows
+            .map((sighting, i) =>
+              exportRow(
+                format,
+                sighting,
+                (sighting.media ?? []).map((item) => getMediaPublicUrl(supabaseUrl, item.path)),
+                offset + i
+              )
+            )
+            .join('');
+          if (chunk) controller.enqueue(encoder.encode(chunk));
+          offset += rows.length;
+
+          if (rows.length < PAGE_SIZE || offset >= MAX_ROWS) {
+            controller.enqueue(encoder.encode(exportFooter(format)));
+            controller.close();
+          }
+        } catch (err) {
+          controller.error(err);
+        }
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(stream, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="ice-out-sightings-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Export failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
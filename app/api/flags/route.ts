@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/supabase/server';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/api/rateLimit';
+import { generateDeviceHash, pepperValidatorHash } from '@/lib/privacy/hash';
+import { FLAG_REASON_LABELS } from '@/lib/sightings/flags';
+
+export const dynamic = 'force-dynamic';
+
+const DEVICE_LIMIT: RateLimitRule = { bucket: 'flags:device', windowSeconds: 60 * 60, max: 10 };
+const IP_LIMIT: RateLimitRule = { bucket: 'flags:ip', windowSeconds: 60 * 60, max: 20 };
+
+const DETAILS_MAX_LENGTH = 500;
+
+/**
+ * Flag a visible sighting. Flags from three networks auto-hide it (recompute_sighting_flags), so flags
+ * are only accepted here: rate limited per IP and device, with per-sighting device and IP hashes derived
+ * server-side. device_id is client-supplied; only ip_hash decides auto-hide.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { sighting_id, reason, details, device_id } = (body ?? {}) as {
+      sighting_id?: unknown;
+      reason?: unknown;
+      details?: unknown;
+      device_id?: unknown;
+    };
+
+    if (typeof sighting_id !== 'string' || !sighting_id) {
+      return NextResponse.json({ error: 'sighting_id required' }, { status: 400 });
+    }
+    if (typeof reason !== 'string' || !Object.hasOwn(FLAG_REASON_LABELS, reason)) {
+      return NextResponse.json({ error: 'Invalid reason' }, { status: 400 });
+    }
+    if (details !== undefined && details !== null && typeof details !== 'string') {
+      return NextResponse.json({ error: 'Invalid details' }, { status: 400 });
+    }
+    const trimmedDetails = details?.trim() || null;
+    if (trimmedDetails && trimmedDetails.length > DETAILS_MAX_LENGTH) {
+      return NextResponse.json({ error: `Details must be ${DETAILS_MAX_LENGTH} characters or fewer` }, { status: 400 });
+    }
+    const deviceId = typeof device_id === 'string' ? device_id.trim() : '';
+    if (deviceId.length < 16 || deviceId.length > 256) {
+      return NextResponse.json({ error: 'Device id required' }, { status: 400 });
+    }
+
+    const service = getServiceClient();
+
+    const ip = getClientIp(request);
+    if (!(await consumeRateLimit(service, DEVICE_LIMIT, deviceId))) {
+      return NextResponse.json(
+        { error: 'Too many flags from this device. Please wait before trying again.' },
+        { status: 429, headers: { 'Retry-After': String(DEVICE_LIMIT.windowSeconds) } }
+      );
+    }
+    if (ip && !(await consumeRateLimit(service, IP_LIMIT, ip))) {
+      return NextResponse.json(
+        { error: 'Too many flags from this network. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(IP_LIMIT.windowSeconds) } }
+      );
+    }
+
+    const { data: sighting, error: sightingError } = await service
+      .from('sightings')
+      .select('id, moderation_state')
+      .eq('id', sighting_id)
+      .maybeSingle();
+    if (sightingError) {
+      return NextResponse.json({ error: sightingError.message }, { status: 400 });
+    }
+    if (!sighting || sighting.moderation_state !== 'visible') {
+      return NextResponse.json({ error: 'Sighting not found' }, { status: 404 });
+    }
+
+    const deviceHash = await generateDeviceHash('flag', sighting.id, deviceId);
+    const ipHash = ip ? await generateDeviceHash('flag-ip', sighting.id, ip) : null;
+    const { error: insertError } = await service.from('reports_flags').insert({
+      sighting_id: sighting.id,
+      reason,
+      details: trimmedDetails,
+      device_hash: await pepperValidatorHash(deviceHash, sighting.id),
+      ip_hash: ipHash ? await pepperValidatorHash(ipHash, sighting.id) : null,
+    });
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json({ error: 'You have already flagged this sighting.' }, { status: 409 });
+      }
+      return NextResponse.json({ error: insertError.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ ok: true }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Flag failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,22 +1,8 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { getAnonClient, getServiceClient } from '@/lib/supabase/server';
 
 export const dynamic = 'force-dynamic';
 
-function getAnonClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-  if (!url || !key) throw new Error('Missing Supabase anon env');
-  return createClient(url, key);
-}
-
-function getServiceClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !key) throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
-  return createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
-}
-
 export async function POST(request: Request) {
   try {
     const body = await request.json();
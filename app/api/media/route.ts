@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/supabase/server';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/api/rateLimit';
+import { isQuarantinePath } from '@/lib/media/buckets';
+import { ingestMedia } from '@/lib/media/ingest';
+
+export const dynamic = 'force-dynamic';
+
+const IP_LIMIT: RateLimitRule = { bucket: 'media:ip', windowSeconds: 60 * 60, max: 60 };
+
+/**
+ * Verify a file uploaded to the quarantine bucket and publish it to sightings-media.
+ * Returns the media entry ({ path, type, thumbPath? }) to include in the sighting submission;
+ * thumbPath is rendered server-side for photos.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { path, type } = (body ?? {}) as { path?: unknown; type?: unknown };
+
+    if (!isQuarantinePath(path)) {
+      return NextResponse.json({ error: 'Invalid upload path' }, { status: 400 });
+    }
+    if (type !== undefined && typeof type !== 'string') {
+      return NextResponse.json({ error: 'Invalid type' }, { status: 400 });
+    }
+
+    const service = getServiceClient();
+
+    const ip = getClientIp(request);
+    if (ip && !(await consumeRateLimit(service, IP_LIMIT, ip))) {
+      return NextResponse.json(
+        { error: 'Too many uploads. Please wait before trying again.' },
+        { status: 429, headers: { 'Retry-After': String(IP_LIMIT.windowSeconds) } }
+      );
+    }
+
+    const result = await ingestMedia(service, {
+      path,
+      declaredType: (type ?? '').trim().toLowerCase(),
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ ok: true, media: result.value }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Upload failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/supabase/server';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/api/rateLimit';
+import { validateSightingInput } from '@/lib/sightings/validate';
+
+export const dynamic = 'force-dynamic';
+
+const DEVICE_LIMIT: RateLimitRule = { bucket: 'sightings:device', windowSeconds: 10 * 60, max: 5 };
+const IP_LIMIT: RateLimitRule = { bucket: 'sightings:ip', windowSeconds: 60 * 60, max: 20 };
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { device_id } = body as { device_id?: unknown };
+    const deviceId = typeof device_id === 'string' ? device_id.trim() : '';
+    if (deviceId.length < 16 || deviceId.length > 256) {
+      return NextResponse.json({ error: 'Device id required' }, { status: 400 });
+    }
+
+    const result = validateSightingInput(body);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'Please fix the highlighted fields.', fieldErrors: result.fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const service = getServiceClient();
+
+    const ip = getClientIp(request);
+    if (!(await consumeRateLimit(service, DEVICE_LIMIT, deviceId))) {
+      return NextResponse.json(
+        { error: 'Too many reports from this device. Please wait before submitting again.' },
+        { status: 429, headers: { 'Retry-After': String(DEVICE_LIMIT.windowSeconds) } }
+      );
+    }
+    if (ip && !(await consumeRateLimit(service, IP_LIMIT, ip))) {
+      return NextResponse.json(
+        { error: 'Too many reports from this network. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(IP_LIMIT.windowSeconds) } }
+      );
+    }
+
+    const { data, error: insertError } = await service
+      .from('sightings')
+      .insert(result.value)
+      .select('id')
+      .single();
+    if (insertError) {
+      return NextResponse.json({ error: insertError.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ ok: true, id: data.id }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Submission failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { getServiceClient, getSessionUser } from '@/lib/supabase/server';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/api/rateLimit';
+import { isValidatorHash, pepperValidatorHash } from '@/lib/privacy/hash';
+import { isLiveStatus } from '@/lib/sightings/status';
+import { getValidationRadius } from '@/lib/geo/haversine';
+
+export const dynamic = 'force-dynamic';
+
+const VOTES = ['confirm', 'not_seen', 'gone', 'false_report'] as const;
+
+const IP_LIMIT: RateLimitRule = { bucket: 'validations:ip', windowSeconds: 60 * 60, max: 60 };
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+/**
+ * Record a validation (confirm) or counter-vote after checking proximity server-side (PostGIS st_dwithin).
+ * The validator's coordinates are only used for the distance check and are never stored.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const {
+      sighting_id,
+      vote = 'confirm',
+      lat,
+      lng,
+      device_fingerprint,
+      validator_hash,
+      access_token,
+      refresh_token,
+    } = (body ?? {}) as {
+      sighting_id?: unknown;
+      vote?: unknown;
+      lat?: unknown;
+      lng?: unknown;
+      device_fingerprint?: unknown;
+      validator_hash?: unknown;
+      access_token?: unknown;
+      refresh_token?: unknown;
+    };
+
+    if (typeof sighting_id !== 'string' || !sighting_id) {
+      return NextResponse.json({ error: 'sighting_id required' }, { status: 400 });
+    }
+    if (!VOTES.includes(vote as (typeof VOTES)[number])) {
+      return NextResponse.json({ error: 'Invalid vote' }, { status: 400 });
+    }
+    if (!isCoordinate(lat, 90) || !isCoordinate(lng, 180)) {
+      return NextResponse.json({ error: 'Valid location required' }, { status: 400 });
+    }
+    // Per-sighting hash of the FingerprintJS visitorId; the raw visitorId never reaches the server
+    if (!isValidatorHash(device_fingerprint)) {
+      return NextResponse.json({ error: 'Device fingerprint required' }, { status: 400 });
+    }
+    if (validator_hash !== undefined && !isValidatorHash(validator_hash)) {
+      return NextResponse.json({ error: 'Invalid validator hash' }, { status: 400 });
+    }
+
+    const service = getServiceClient();
+
+    const ip = getClientIp(request);
+    if (ip && !(await consumeRateLimit(service, IP_LIMIT, ip))) {
+      return NextResponse.json(
+        { error: 'Too many validations from this network. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(IP_LIMIT.windowSeconds) } }
+      );
+    }
+
+    const { data: sighting, error: sightingError } = await service
+      .from('sightings')
+      .select('id, location_precision_m, status, moderation_state')
+      .eq('id', sighting_id)
+      .maybeSingle();
+    if (sightingError) {
+      return NextResponse.json({ error: sightingError.message }, { status: 400 });
+    }
+    if (!sighting || sighting.moderation_state !== 'visible') {
+      return NextResponse.json({ error: 'Sighting not found' }, { status: 404 });
+    }
+    if (!isLiveStatus(sighting.status)) {
+      return NextResponse.json({ error: 'This sighting is no longer active.' }, { status: 409 });
+    }
+
+    // Fuzzed sightings widen the radius by how far the stored point can be from the real one
+    const radius = getValidationRadius(sighting.location_precision_m);
+    const { data: inRange, error: rangeError } = await service
+      .rpc('sightings_within', { p_lat: lat, p_lng: lng, p_radius_m: radius })
+      .select('id')
+      .eq('id', sighting.id)
+      .maybeSingle();
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError.message }, { status: 400 });
+    }
+    const isWithinRange = Boolean(inRange);
+    if (!isWithinRange) {
+      return NextResponse.json(
+        { error: `You must be within ${radius} meters to vote on this sighting.` },
+        { status: 403 }
+      );
+    }
+
+    const user = await getSessionUser(access_token, refresh_token);
+
+    const { error: insertError } = await service.from('validations').insert({
+      sighting_id: sighting.id,
+      vote,
+      device_fingerprint: await pepperValidatorHash(device_fingerprint, sighting.id),
+      ...(validator_hash
+        ? { validator_hash: await pepperValidatorHash(validator_hash, sighting.id) }
+        : {}),
+      is_within_range: isWithinRange,
+      ...(user ? { validator_id: user.id } : {}),
+    });
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json({ error: 'You have already voted on this sighting.' }, { status: 409 });
+      }
+      return NextResponse.json({ error: insertError.message }, { status: 400 });
+    }
+
+    return NextResponse.json({ ok: true }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Validation failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -4,9 +4,25 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { supabase, type Sighting } from '@/lib/supabase/browser';
+import { supabase, type Sighting, type SightingStatus } from '@/lib/supabase/browser';
 import SightingDrawer from '@/components/Sighting/SightingDrawer';
+import StatusLegend from '@/components/Map/StatusLegend';
 import { useAuth } from '@/components/Auth/AuthProvider';
+import {
+  formatValidationScore,
+  getNetValidationScore,
+  getStatusDisplay,
+  isLiveStatus,
+  LIVE_STATUSES,
+  VERIFIED_STATUSES,
+} from '@/lib/sightings/status';
+import { formatSightingLocation } from '@/lib/geo/precision';
+import { compassPoint, formatDistance } from '@/lib/geo/units';
+import { fetchNearestSighting, type NearestSighting } from '@/lib/sightings/nearest';
+import { useSightingChanges } from '@/lib/sightings/realtime';
+import { normalizeBounds, type ViewportBounds } from '@/lib/sightings/viewport';
+
+const RECENT_LIMIT = 4;
 
 // Dynamically import LiveMap to avoid SSR issues with Leaflet
 const LiveMap = dynamic(() => import('@/components/Map/LiveMap'), {
@@ -22,45 +38,35 @@ export default function Home() {
   const router = useRouter();
   const { user, role, signOut } = useAuth();
   const [selectedSighting, setSelectedSighting] = useState<Sighting | null>(null);
-  const [stats, setStats] = useState({
-    active: 0,
-    verified: 0,
-    nearest: null as number | null,
-  });
+  // Live sightings (id → status); the stat cards are derived from it
+  const [liveStatuses, setLiveStatuses] = useState<Map<string, SightingStatus>>(new Map());
+  const [nearest, setNearest] = useState<NearestSighting | null>(null);
+  const [nearestState, setNearestState] = useState<'idle' | 'locating' | 'ready' | 'none' | 'unavailable'>('idle');
   const [recentSightings, setRecentSightings] = useState<Sighting[]>([]);
   const [showActiveOnly, setShowActiveOnly] = useState(true);
+  const [mapViewport, setMapViewport] = useState<ViewportBounds | null>(null);
+  // Bumped to reload everything after a realtime reconnect (events may have been missed)
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     async function loadStats() {
       try {
-        const now = new Date();
-        const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
-        // Load active sightings
+        // Load active sightings (status lifecycle is maintained by the database)
         const { data: activeData } = await supabase
           .from('sightings')
-          .select('*')
-          .gte('event_time', twentyFourHoursAgo.toISOString());
-
-        // Load verified count (verified, active, or confirmed)
-        const { data: verifiedData } = await supabase
-          .from('sightings')
-          .select('id')
-          .in('status', ['verified', 'active', 'confirmed'])
-          .gte('event_time', twentyFourHoursAgo.toISOString());
+          .select('id, status')
+          .eq('moderation_state', 'visible')
+          .in('status', LIVE_STATUSES);
 
         // Load recent sightings for sidebar
         const { data: recentData } = await supabase
           .from('sightings')
           .select('*')
+          .eq('moderation_state', 'visible')
           .order('event_time', { ascending: false })
-          .limit(4);
+          .limit(RECENT_LIMIT);
 
-        setStats({
-          active: activeData?.length || 0,
-          verified: verifiedData?.length || 0,
-          nearest: null, // TODO: Calculate based on user location
-        });
+        setLiveStatuses(new Map((activeData ?? []).map((s) => [s.id as string, s.status as SightingStatus])));
         setRecentSightings(recentData || []);
       } catch (err) {
         const isAborted =
@@ -68,31 +74,97 @@ export default function Home() {
           (err instanceof Error && err.message?.includes('AbortError'));
         if (!isAborted) console.error('Error loading stats:', err);
       }
+    }
 
-      // Subscribe to changes
-      const channel = supabase
-        .channel('stats-updates')
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'sightings',
-          },
-          () => {
-            // Reload stats on any change
-            loadStats();
-          }
-        )
-        .subscribe();
+    loadStats();
+  }, [reloadKey]);
 
-      return () => {
-        supabase.removeChannel(channel);
-      };
+  // Apply realtime changes in place instead of refetching
+  useSightingChanges((change) => {
+    if (change.type === 'resync') {
+      setReloadKey((key) => key + 1);
+      return;
     }
 
-    loadStats();
-  }, []);
+    const id = change.type === 'remove' ? change.id : change.sighting.id;
+    const sighting = change.type === 'upsert' ? change.sighting : null;
+    const isVisible = sighting?.moderation_state === 'visible';
+
+    setLiveStatuses((prev) => {
+      const next = new Map(prev);
+      if (sighting && isVisible && isLiveStatus(sighting.status)) {
+        next.set(id, sighting.status);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+
+    if (sighting && isVisible) {
+      setRecentSightings((prev) =>
+        [sighting, ...prev.filter((s) => s.id !== id)]
+          .sort((a, b) => b.event_time.localeCompare(a.event_time))
+          .slice(0, RECENT_LIMIT)
+      );
+    } else if (recentSightings.some((s) => s.id === id)) {
+      // A shown sighting was removed; reload to backfill the list
+      setReloadKey((key) => key + 1);
+    }
+  });
+
+  const stats = {
+    active: liveStatuses.size,
+    verified: Array.from(liveStatuses.values()).filter((status) => VERIFIED_STATUSES.includes(status)).length,
+  };
+
+  // Opt-in: location is only requested when the card is clicked and is kept in memory, never stored
+  const handleNearestClick = async () => {
+    if (nearestState === 'ready' && nearest) {
+      setSelectedSighting(nearest.sighting);
+      return;
+    }
+    if (nearestState === 'locating') return;
+    if (!navigator.geolocation) {
+      setNearestState('unavailable');
+      return;
+    }
+
+    setNearestState('locating');
+    try {
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: false,
+          timeout: 10000,
+          maximumAge: 60000,
+        });
+      });
+      const result = await fetchNearestSighting(position.coords.latitude, position.coords.longitude);
+      setNearest(result);
+      setNearestState(result ? 'ready' : 'none');
+    } catch (err) {
+      console.error('Error finding nearest sighting:', err);
+      setNearestState('unavailable');
+    }
+  };
+
+  const nearestHint = {
+    idle: 'Tap to use your location',
+    locating: 'Locating…',
+    ready: nearest ? `${compassPoint(nearest.bearing)} · ${nearest.sighting.activity_type}` : '',
+    none: 'No active sightings',
+    unavailable: 'Location unavailable. Tap to retry',
+  }[nearestState];
+
+  // Exports follow the map: Active/All toggle and the current viewport
+  const getExportUrl = (format: 'csv' | 'geojson' | 'kml') => {
+    const params = new URLSearchParams({ format });
+    if (showActiveOnly) params.set('status', LIVE_STATUSES.join(','));
+    if (mapViewport) {
+      const { west, south, east, north } = normalizeBounds(mapViewport);
+      params.set('bbox', [west, south, east, north].map((n) => n.toFixed(6)).join(','));
+    }
+    return `/api/export?${params}`;
+  };
 
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
@@ -180,12 +252,19 @@ export default function Home() {
               <p className="ice-mono text-xs text-white/60">Verified</p>
               <p className="ice-heading mt-2 text-3xl text-[#ff3b30]">{stats.verified}</p>
             </div>
-            <div className="ice-panel p-4">
+            <button
+              type="button"
+              onClick={handleNearestClick}
+              className="ice-panel p-4 text-left transition-colors hover:border-white/40"
+            >
               <p className="ice-mono text-xs text-white/60">Nearest</p>
               <p className="ice-heading mt-2 text-3xl">
-                {stats.nearest ? `${stats.nearest.toFixed(1)} mi` : '—'}
+                {nearestState === 'ready' && nearest
+                  ? formatDistance(nearest.distanceMeters, navigator.language)
+                  : '—'}
               </p>
-            </div>
+              <p className="ice-mono mt-1 truncate text-xs text-white/60">{nearestHint}</p>
+            </button>
           </div>
 
           <div className="ice-panel p-4">
@@ -217,33 +296,12 @@ export default function Home() {
                 <LiveMap
                   onMarkerClick={setSelectedSighting}
                   showActiveOnly={showActiveOnly}
+                  onViewportChange={setMapViewport}
                 />
               </div>
 
               <div className="space-y-4">
-                <div className="ice-panel p-4">
-                  <p className="ice-heading text-sm">Current Status</p>
-                  <div className="mt-3 space-y-3 text-xs">
-                    <div className="flex items-center justify-between">
-                      <span className="ice-mono text-white/60">Unverified</span>
-                      <span className="ice-pill border-[#ffd700] text-[#ffd700]">
-                        11
-                      </span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="ice-mono text-white/60">Verified</span>
-                      <span className="ice-pill border-[#ff3b30] text-[#ff3b30]">
-                        7
-                      </span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="ice-mono text-white/60">Historic</span>
-                      <span className="ice-pill border-[#4a4a4a] text-[#4a4a4a]">
-                        4
-                      </span>
-                    </div>
-                  </div>
-                </div>
+                <StatusLegend viewport={mapViewport} />
 
                 <div className="ice-panel p-4">
                   <p className="ice-heading text-sm">Recent Reports</p>
@@ -261,11 +319,7 @@ export default function Home() {
                             {sighting.activity_type}
                           </span>
                           <span
-                            className={`ice-mono ${
-                              sighting.status === 'confirmed' || sighting.status === 'verified' || sighting.status === 'active'
-                                ? 'text-[#ff3b30]'
-                                : 'text-[#ffd700]'
-                            }`}
+                            className={`ice-mono ${getStatusDisplay(sighting.status).textClass}`}
                           >
                             {formatTimeAgo(sighting.event_time)}
                           </span>
@@ -332,7 +386,14 @@ export default function Home() {
         <div className="ice-panel overflow-hidden">
           <div className="flex flex-wrap items-center justify-between gap-4 border-b-2 border-white/10 p-4">
             <p className="ice-heading text-lg">Sightings Table</p>
-            <button className="ice-button ice-button--ghost">Export Data</button>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="ice-mono text-xs uppercase text-white/60">Export map view</span>
+              {(['csv', 'geojson', 'kml'] as const).map((format) => (
+                <a key={format} href={getExportUrl(format)} className="ice-button ice-button--ghost" download>
+                  {format === 'geojson' ? 'GeoJSON' : format.toUpperCase()}
+                </a>
+              ))}
+            </div>
           </div>
           <div className="overflow-x-auto">
             <table className="w-full min-w-[560px] text-left text-xs">
@@ -342,7 +403,7 @@ export default function Home() {
                   <th className="px-4 py-3">Location</th>
                   <th className="px-4 py-3">Type</th>
                   <th className="px-4 py-3">Status</th>
-                  <th className="px-4 py-3">Validations</th>
+                  <th className="px-4 py-3">Score</th>
                 </tr>
               </thead>
               <tbody className="ice-mono">
@@ -354,21 +415,7 @@ export default function Home() {
                   </tr>
                 ) : (
                   recentSightings.map((sighting) => {
-                    const now = new Date();
-                    const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-                    const isHistorical = new Date(sighting.event_time) < twentyFourHoursAgo;
-                    const statusText = isHistorical
-                      ? 'Historic'
-                      : sighting.status === 'confirmed'
-                        ? 'Confirmed'
-                        : sighting.status === 'verified' || sighting.status === 'active'
-                          ? 'Verified'
-                          : 'Unverified';
-                    const statusColor = isHistorical
-                      ? 'text-[#4a4a4a]'
-                      : sighting.status === 'confirmed' || sighting.status === 'verified' || sighting.status === 'active'
-                        ? 'text-[#ff3b30]'
-                        : 'text-[#ffd700]';
+                    const statusDisplay = getStatusDisplay(sighting.status);
 
                     return (
                       <tr
@@ -380,11 +427,11 @@ export default function Home() {
                           {formatTimeAgo(sighting.event_time)}
                         </td>
                         <td className="px-4 py-3">
-                          {sighting.lat.toFixed(4)}, {sighting.lng.toFixed(4)}
+                          {formatSightingLocation(sighting)}
                         </td>
                         <td className="px-4 py-3 text-white/70">{sighting.activity_type}</td>
-                        <td className={`px-4 py-3 ${statusColor}`}>{statusText}</td>
-                        <td className="px-4 py-3">{sighting.validations_count}/{sighting.media?.length ? 2 : 3}</td>
+                        <td className={`px-4 py-3 ${statusDisplay.textClass}`}>{statusDisplay.label}</td>
+                        <td className="px-4 py-3">{formatValidationScore(getNetValidationScore(sighting))}/{sighting.validation_threshold}</td>
                       </tr>
                     );
                   })
@@ -5,6 +5,12 @@ import { useRouter } from 'next/navigation';
 import dynamicImport from 'next/dynamic';
 import { supabase } from '@/lib/supabase/browser';
 import { scrubMediaFile } from '@/lib/media/scrub';
+import { MEDIA_EXTENSIONS, QUARANTINE_BUCKET, QUARANTINE_PREFIX } from '@/lib/media/buckets';
+import type { RedactionRegion } from '@/lib/media/redaction';
+import { formatSightingLocation, LOCATION_PRECISIONS, snapToGrid, type LocationPrecision } from '@/lib/geo/precision';
+import { getDeviceFingerprint } from '@/lib/privacy/device';
+import type { SightingFieldErrors, SightingMediaItem } from '@/lib/sightings/validate';
+import PhotoRedactor from '@/components/Report/PhotoRedactor';
 
 // Dynamically import all Leaflet components to avoid SSR issues
 const MapContainer = dynamicImport(
@@ -19,10 +25,16 @@ const MapWithPinDynamic = dynamicImport(() => import('@/components/Map/MapWithPi
   ssr: false,
 });
 
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="ice-mono mt-2 text-xs text-[#ff3b30]">{message}</p>;
+}
+
 export default function ReportPage() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<SightingFieldErrors>({});
   const [success, setSuccess] = useState(false);
 
   // Form state
@@ -31,8 +43,11 @@ export default function ReportPage() {
   const [eventTime, setEventTime] = useState(new Date().toISOString().slice(0, 16));
   const [lat, setLat] = useState<number | null>(null);
   const [lng, setLng] = useState<number | null>(null);
+  const [locationPrecision, setLocationPrecision] = useState<LocationPrecision>(0);
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
   const [mediaPreviews, setMediaPreviews] = useState<string[]>([]);
+  // Blur regions per photo, same order as mediaFiles
+  const [redactions, setRedactions] = useState<RedactionRegion[][]>([]);
 
   // Get user location on mount
   useEffect(() => {
@@ -55,6 +70,7 @@ export default function ReportPage() {
     if (files.length === 0) return;
 
     setMediaFiles(files);
+    setRedactions(files.map(() => []));
 
     // Create previews
     const previews = await Promise.all(
@@ -73,6 +89,7 @@ export default function ReportPage() {
     e.preventDefault();
     setLoading(true);
     setError(null);
+    setFieldErrors({});
 
     if (!lat || !lng) {
       setError('Please select a location on the map or enable location access.');
@@ -87,41 +104,62 @@ export default function ReportPage() {
     }
 
     try {
-      // Upload media files if any
-      const mediaUrls: Array<{ path: string; type: string }> = [];
+      // Upload media to quarantine; /api/media verifies and publishes each file
+      const mediaUrls: SightingMediaItem[] = [];
 
-      for (const file of mediaFiles) {
-        // Scrub EXIF data
-        const scrubbedBlob = await scrubMediaFile(file);
-        const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${file.name.split('.').pop()}`;
-        const filePath = `sightings/${fileName}`;
+      for (const [idx, file] of mediaFiles.entries()) {
+        // Pixelate blur regions and strip location and device metadata (the server strips again)
+        const scrubbedBlob = await scrubMediaFile(file, redactions[idx] ?? []);
+        const mediaType = scrubbedBlob.type || file.type;
+        const extension = MEDIA_EXTENSIONS[mediaType];
+        if (!extension) throw new Error(`${file.name}: unsupported file type.`);
+        const uploadId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
+        const filePath = `${QUARANTINE_PREFIX}${uploadId}.${extension}`;
 
         const { error: uploadError } = await supabase.storage
-          .from('sightings-media')
+          .from(QUARANTINE_BUCKET)
           .upload(filePath, scrubbedBlob, {
-            contentType: file.type,
+            contentType: mediaType,
             upsert: false,
           });
 
         if (uploadError) throw uploadError;
 
-        mediaUrls.push({
-          path: filePath,
-          type: file.type,
+        const mediaRes = await fetch('/api/media', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ path: filePath, type: mediaType }),
         });
+        const mediaData = await mediaRes.json().catch(() => ({}));
+        if (!mediaRes.ok) {
+          throw new Error(`${file.name}: ${(mediaData.error as string) || mediaRes.statusText}`);
+        }
+
+        mediaUrls.push(mediaData.media as SightingMediaItem);
       }
 
-      // Insert sighting
-      const { error: insertError } = await supabase.from('sightings').insert({
-        event_time: new Date(eventTime).toISOString(),
-        lat,
-        lng,
-        activity_type: activityType.trim(),
-        notes: notes.trim() || null,
-        media: mediaUrls,
-      });
+      // Fuzzed locations are snapped here so the exact point never leaves the device
+      const location = snapToGrid(lat, lng, locationPrecision);
 
-      if (insertError) throw insertError;
+      // Submit through the API route, which validates and rate-limits
+      const res = await fetch('/api/sightings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          event_time: new Date(eventTime).toISOString(),
+          ...location,
+          location_precision_m: locationPrecision,
+          activity_type: activityType.trim(),
+          notes: notes.trim() || null,
+          media: mediaUrls,
+          device_id: await getDeviceFingerprint(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setFieldErrors((data.fieldErrors as SightingFieldErrors) ?? {});
+        throw new Error((data.error as string) || res.statusText);
+      }
 
       setSuccess(true);
       setTimeout(() => {
@@ -205,9 +243,32 @@ export default function ReportPage() {
           </div>
           {lat && lng && (
             <p className="ice-mono mt-2 text-xs text-white/60">
-              Selected: {lat.toFixed(6)}, {lng.toFixed(6)}
+              {locationPrecision === 0
+                ? `Selected: ${lat.toFixed(6)}, ${lng.toFixed(6)}`
+                : `Will be shared as: ${formatSightingLocation({ ...snapToGrid(lat, lng, locationPrecision), location_precision_m: locationPrecision })}`}
             </p>
           )}
+          <FieldError message={fieldErrors.lat ?? fieldErrors.lng} />
+
+          <p className="ice-mono mb-2 mt-4 text-xs uppercase text-white/60">Location precision</p>
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Location precision">
+            {LOCATION_PRECISIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setLocationPrecision(value)}
+                aria-pressed={locationPrecision === value}
+                className={`ice-pill ${locationPrecision === value ? '' : 'text-white/60'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="ice-mono mt-2 text-xs text-white/60">
+            {LOCATION_PRECISIONS.find((p) => p.value === locationPrecision)?.description} Validators get a wider range
+            for less precise reports.
+          </p>
+          <FieldError message={fieldErrors.location_precision_m} />
         </div>
 
         {/* Event Time */}
@@ -223,6 +284,7 @@ export default function ReportPage() {
             className="ice-input w-full"
             required
           />
+          <FieldError message={fieldErrors.event_time} />
         </div>
 
         {/* Activity Type */}
@@ -240,6 +302,7 @@ export default function ReportPage() {
             maxLength={64}
             required
           />
+          <FieldError message={fieldErrors.activity_type} />
         </div>
 
         {/* Notes */}
@@ -256,6 +319,7 @@ export default function ReportPage() {
             rows={4}
             maxLength={2000}
           />
+          <FieldError message={fieldErrors.notes} />
         </div>
 
         {/* Media Upload */}
@@ -264,38 +328,43 @@ export default function ReportPage() {
             Media (Optional)
           </label>
           <p className="ice-mono mb-3 text-xs text-white/60">
-            Photos and videos. EXIF data will be automatically removed.
+            Photos and videos (MP4, MOV or WebM). Location and device metadata is removed before upload; blur faces and plates in photos below.
           </p>
           <input
             type="file"
             id="media"
-            accept="image/*,video/*"
+            accept="image/*,video/mp4,video/quicktime,video/webm"
             multiple
             onChange={handleMediaChange}
             className="ice-input w-full"
           />
+          <FieldError message={fieldErrors.media} />
           {mediaPreviews.length > 0 && (
-            <div className="mt-4 grid grid-cols-2 gap-4">
-              {mediaPreviews.map((preview, idx) => (
-                <div
-                  key={idx}
-                  className="ice-panel aspect-video overflow-hidden"
-                >
-                  {mediaFiles[idx]?.type.startsWith('image/') ? (
-                    <img
-                      src={preview}
-                      alt={`Preview ${idx + 1}`}
-                      className="h-full w-full object-cover"
-                    />
-                  ) : (
+            <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+              {mediaPreviews.map((preview, idx) =>
+                mediaFiles[idx]?.type.startsWith('image/') ? (
+                  <PhotoRedactor
+                    key={idx}
+                    src={preview}
+                    alt={`Preview ${idx + 1}`}
+                    regions={redactions[idx] ?? []}
+                    onChange={(regions) =>
+                      setRedactions((prev) => prev.map((r, i) => (i === idx ? regions : r)))
+                    }
+                  />
+                ) : (
+                  <div
+                    key={idx}
+                    className="ice-panel aspect-video overflow-hidden"
+                  >
                     <video
                       src={preview}
                       controls
                       className="h-full w-full object-cover"
                     />
-                  )}
-                </div>
-              ))}
+                  </div>
+                )
+              )}
             </div>
           )}
         </div>
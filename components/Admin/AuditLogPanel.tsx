@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase, type AuditAction, type AuditEvent } from '@/lib/supabase/browser';
+
+type Actor = { id: string; email: string | null };
+
+type AuditFilters = {
+  /** '' = anyone, 'system' = no actor */
+  actor: string;
+  action: AuditAction | '';
+  /** yyyy-mm-dd from <input type="date">, local time */
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', action: '', from: '', to: '' };
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'profile.created': 'Profile created',
+  'profile.role_changed': 'Role changed',
+  'profile.deleted': 'Profile deleted',
+  'sighting.status_changed': 'Sighting status changed',
+  'sighting.moderation_changed': 'Sighting moderation changed',
+  'sighting.deleted': 'Sighting deleted',
+  'invite.created': 'Invite sent',
+  'invite.resent': 'Invite re-sent',
+  'invite.removed': 'Invite removed',
+};
+
+const PAGE_SIZE = 200;
+
+const inputClass =
+  'bg-black border-2 border-[var(--ice-border)] rounded px-2 py-1 text-white placeholder:text-white/40';
+
+function describeDetails(event: AuditEvent): string {
+  const { from, to, ...rest } = event.details;
+  const parts: string[] = [];
+  if (from !== undefined || to !== undefined) parts.push(`${String(from ?? '—')} → ${String(to ?? '—')}`);
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== null && value !== undefined) parts.push(`${key}: ${String(value)}`);
+  }
+  return parts.join(' · ');
+}
+
+export default function AuditLogPanel({ actors }: { actors: Actor[] }) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      let query = supabase
+        .from('audit_events')
+        .select('*')
+        .order('occurred_at', { ascending: false })
+        .limit(PAGE_SIZE);
+      if (filters.actor === 'system') query = query.is('actor_id', null);
+      else if (filters.actor) query = query.eq('actor_id', filters.actor);
+      if (filters.action) query = query.eq('action', filters.action);
+      if (filters.from) {
+        query = query.gte('occurred_at', new Date(`${filters.from}T00:00:00`).toISOString());
+      }
+      if (filters.to) {
+        const end = new Date(`${filters.to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        query = query.lt('occurred_at', end.toISOString());
+      }
+
+      const { data, error: queryError } = await query;
+      if (queryError) {
+        setError(queryError.message);
+        setEvents([]);
+      } else {
+        setError(null);
+        setEvents((data as AuditEvent[]) ?? []);
+      }
+      setLoading(false);
+    }
+    load();
+  }, [filters]);
+
+  const emailById = new Map(actors.map((a) => [a.id, a.email]));
+  const actorLabel = (id: string | null) =>
+    id ? emailById.get(id) ?? id.slice(0, 8) : 'system';
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <section className="ice-panel mb-8">
+      <h2 className="ice-heading text-lg mb-2">Audit log</h2>
+      <p className="ice-mono text-xs text-white/60 mb-4">
+        Role changes, invites and sighting status or moderation changes. Entries are written by the
+        database and cannot be edited or deleted.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4 ice-mono text-xs">
+        <label className="flex flex-col gap-1 text-white/80">
+          Actor
+          <select
+            value={filters.actor}
+            onChange={(e) => updateFilter('actor', e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Anyone</option>
+            <option value="system">System</option>
+            {actors.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.email ?? a.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-white/80">
+          Action
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value as AuditFilters['action'])}
+            className={inputClass}
+          >
+            <option value="">All actions</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-white/80">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-white/80">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <button onClick={() => setFilters(EMPTY_FILTERS)} className="ice-button ice-button--ghost">
+          Clear
+        </button>
+      </div>
+
+      {error && (
+        <div className="border-2 border-[var(--ice-red)] p-3 mb-4">
+          <p className="ice-mono text-xs text-[var(--ice-red)]">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="ice-mono text-white/60">Loading audit log…</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full ice-mono text-sm">
+            <thead>
+              <tr className="border-b-2 border-white/20">
+                <th className="text-left px-4 py-3 text-white/60">When</th>
+                <th className="text-left px-4 py-3 text-white/60">Actor</th>
+                <th className="text-left px-4 py-3 text-white/60">Action</th>
+                <th className="text-left px-4 py-3 text-white/60">Target</th>
+                <th className="text-left px-4 py-3 text-white/60">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-white/50">
+                    No matching events.
+                  </td>
+                </tr>
+              ) : (
+                events.map((event) => (
+                  <tr key={event.id} className="border-b border-white/10 align-top">
+                    <td className="px-4 py-3 text-white/60 text-xs whitespace-nowrap">
+                      {new Date(event.occurred_at).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-white/80 text-xs">{actorLabel(event.actor_id)}</td>
+                    <td className="px-4 py-3 text-white/80 text-xs">
+                      {AUDIT_ACTION_LABELS[event.action] ?? event.action}
+                    </td>
+                    <td className="px-4 py-3 text-white/50 text-xs break-all">
+                      {event.target_table} · {event.target_id}
+                    </td>
+                    <td className="px-4 py-3 text-white/60 text-xs break-words">
+                      {describeDetails(event)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+          {events.length === PAGE_SIZE && (
+            <p className="ice-mono text-xs text-white/40 mt-2">
+              Showing the latest {PAGE_SIZE} events; narrow the filters to see older ones.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
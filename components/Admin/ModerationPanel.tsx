@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  supabase,
+  type ModerationAction,
+  type ReportFlag,
+  type Sighting,
+} from '@/lib/supabase/browser';
+import { getStatusDisplay } from '@/lib/sightings/status';
+import { FLAG_REASON_LABELS } from '@/lib/sightings/flags';
+import { formatSightingLocation } from '@/lib/geo/precision';
+
+type ModerationVerb = Exclude<ModerationAction['action'], 'auto_hide'>;
+
+const inputClass =
+  'bg-black border-2 border-[var(--ice-border)] rounded px-2 py-1 text-white placeholder:text-white/40';
+
+const MODERATION_LABELS: Record<Sighting['moderation_state'], string> = {
+  visible: 'Visible',
+  hidden: 'Hidden',
+  pending_review: 'Pending review',
+};
+
+export default function ModerationPanel() {
+  const [sightings, setSightings] = useState<Sighting[]>([]);
+  const [actions, setActions] = useState<ModerationAction[]>([]);
+  const [flagsBySighting, setFlagsBySighting] = useState<Record<string, ReportFlag[]>>({});
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    async function load() {
+      let query = supabase
+        .from('sightings')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+      if (flaggedOnly) {
+        query = query.or('is_disputed.eq.true,moderation_state.neq.visible,flag_count.gt.0');
+      }
+
+      const [{ data: sightingData, error: sightingError }, { data: actionData, error: actionError }] =
+        await Promise.all([
+          query,
+          supabase
+            .from('moderation_actions')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(20),
+        ]);
+
+      if (sightingError || actionError) {
+        setError((sightingError ?? actionError)?.message ?? 'Failed to load moderation queue');
+        setLoading(false);
+        return;
+      }
+
+      const loaded = (sightingData as Sighting[]) ?? [];
+      const flaggedIds = loaded.filter((s) => s.flag_count > 0).map((s) => s.id);
+      const grouped: Record<string, ReportFlag[]> = {};
+      if (flaggedIds.length > 0) {
+        const { data: flagData, error: flagError } = await supabase
+          .from('reports_flags')
+          .select('*')
+          .in('sighting_id', flaggedIds)
+          .order('created_at', { ascending: false });
+        if (flagError) setError(flagError.message);
+        for (const flag of (flagData as ReportFlag[]) ?? []) {
+          (grouped[flag.sighting_id] ??= []).push(flag);
+        }
+      }
+
+      setSightings(loaded);
+      setActions((actionData as ModerationAction[]) ?? []);
+      setFlagsBySighting(grouped);
+      setLoading(false);
+    }
+    load();
+  }, [flaggedOnly, reloadKey]);
+
+  const handleAction = async (sighting: Sighting, action: ModerationVerb) => {
+    const reason = (reasons[sighting.id] ?? '').trim();
+    if (reason.length < 3) {
+      setError('Enter a reason (at least 3 characters) before moderating.');
+      return;
+    }
+    if (action === 'delete' && !window.confirm('Delete this sighting permanently?')) return;
+
+    setWorkingId(sighting.id);
+    setError(null);
+    const { error: rpcError } = await supabase.rpc('moderate_sighting', {
+      p_sighting_id: sighting.id,
+      p_action: action,
+      p_reason: reason,
+    });
+    if (rpcError) {
+      setError(rpcError.message);
+    } else {
+      setReasons((prev) => ({ ...prev, [sighting.id]: '' }));
+      setReloadKey((k) => k + 1);
+    }
+    setWorkingId(null);
+  };
+
+  return (
+    <section className="ice-panel mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="ice-heading text-lg mb-2">Moderation queue</h2>
+          <p className="ice-mono text-xs text-white/60">
+            Hide, restore or delete sightings. Every action requires a reason and is recorded.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setFlaggedOnly(false)}
+            className={`ice-pill ${flaggedOnly ? 'text-white/60' : ''}`}
+          >
+            Recent
+          </button>
+          <button
+            onClick={() => setFlaggedOnly(true)}
+            className={`ice-pill ${flaggedOnly ? '' : 'text-white/60'}`}
+          >
+            Flagged
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="border-2 border-[var(--ice-red)] p-3 mb-4">
+          <p className="ice-mono text-xs text-[var(--ice-red)]">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="ice-mono text-white/60">Loading sightings…</p>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full ice-mono text-sm">
+            <thead>
+              <tr className="border-b-2 border-white/20">
+                <th className="text-left px-4 py-3 text-white/60">Reported</th>
+                <th className="text-left px-4 py-3 text-white/60">Sighting</th>
+                <th className="text-left px-4 py-3 text-white/60">State</th>
+                <th className="text-left px-4 py-3 text-white/60">Reason / action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sightings.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-8 text-center text-white/50">
+                    Nothing to review.
+                  </td>
+                </tr>
+              ) : (
+                sightings.map((sighting) => {
+                  const statusDisplay = getStatusDisplay(sighting.status);
+                  const isVisible = sighting.moderation_state === 'visible';
+                  return (
+                    <tr key={sighting.id} className="border-b border-white/10 align-top">
+                      <td className="px-4 py-3 text-white/60 text-xs">
+                        {new Date(sighting.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 max-w-[280px]">
+                        <p className="text-white/80">{sighting.activity_type}</p>
+                        {sighting.notes && (
+                          <p className="text-xs text-white/50 break-words">{sighting.notes}</p>
+                        )}
+                        <p className="text-xs text-white/40">
+                          {sighting.media?.length ?? 0} media · {formatSightingLocation(sighting)}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-xs">
+                        <p className={statusDisplay.textClass}>{statusDisplay.label}</p>
+                        <p className={isVisible ? 'text-white/60' : 'text-[var(--ice-red)]'}>
+                          {MODERATION_LABELS[sighting.moderation_state]}
+                        </p>
+                        {sighting.is_disputed && <p className="text-[var(--ice-red)]">Disputed</p>}
+                        {(flagsBySighting[sighting.id] ?? []).length > 0 && (
+                          <ul className="mt-2 space-y-1">
+                            {flagsBySighting[sighting.id].map((flag) => (
+                              <li key={flag.id} className="text-white/60">
+                                <span className="text-[var(--ice-yellow)]">
+                                  ⚑ {FLAG_REASON_LABELS[flag.reason]}
+                                </span>
+                                {flag.details && (
+                                  <span className="block text-white/40 break-words">{flag.details}</span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          value={reasons[sighting.id] ?? ''}
+                          onChange={(e) =>
+                            setReasons((prev) => ({ ...prev, [sighting.id]: e.target.value }))
+                          }
+                          placeholder="Reason (required)"
+                          maxLength={500}
+                          className={`${inputClass} w-full mb-2`}
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          {isVisible ? (
+                            <button
+                              onClick={() => handleAction(sighting, 'hide')}
+                              disabled={workingId === sighting.id}
+                              className="ice-button ice-button--ghost"
+                            >
+                              Hide
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleAction(sighting, 'restore')}
+                              disabled={workingId === sighting.id}
+                              className="ice-button ice-button--ghost"
+                            >
+                              Restore
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleAction(sighting, 'delete')}
+                            disabled={workingId === sighting.id}
+                            className="ice-button ice-button--alert"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 className="ice-heading text-sm mb-2">Recent actions</h3>
+      {actions.length === 0 ? (
+        <p className="ice-mono text-xs text-white/50">No moderation actions yet.</p>
+      ) : (
+        <ul className="ice-mono text-xs space-y-2">
+          {actions.map((a) => (
+            <li key={a.id} className="border-b border-white/10 pb-2">
+              <span className="text-white/50">{new Date(a.created_at).toLocaleString()}</span>{' '}
+              <span className="uppercase text-white/80">{a.action}</span>{' '}
+              <span className="text-white/40">{a.sighting_id.slice(0, 8)}</span>{' '}
+              <span className="text-white/40">by {a.actor_id ? a.actor_id.slice(0, 8) : 'system'}</span>
+              <span className="block text-white/60">{a.reason}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
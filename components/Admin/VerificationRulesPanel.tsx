@@ -0,0 +1,277 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase, type VerificationRule } from '@/lib/supabase/browser';
+
+type RuleDraft = {
+  activity_type: string;
+  region_name: string;
+  region: string;
+  threshold: number;
+  media_threshold: number;
+};
+
+const EMPTY_DRAFT: RuleDraft = {
+  activity_type: '',
+  region_name: '',
+  region: '',
+  threshold: 3,
+  media_threshold: 2,
+};
+
+const inputClass =
+  'bg-black border-2 border-[var(--ice-border)] rounded px-2 py-1 text-white placeholder:text-white/40';
+
+function describeRule(rule: VerificationRule): string {
+  const activity = rule.activity_type ?? 'Any activity';
+  const region = rule.region ? rule.region_name ?? 'Region' : 'Everywhere';
+  return `${activity} · ${region}`;
+}
+
+export default function VerificationRulesPanel() {
+  const [rules, setRules] = useState<VerificationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      const { data, error: loadError } = await supabase
+        .from('verification_rules')
+        .select('*')
+        .order('updated_at', { ascending: true });
+      if (loadError) {
+        setError(loadError.message);
+      } else {
+        setRules((data as VerificationRule[]) ?? []);
+      }
+      setLoading(false);
+    }
+    load();
+  }, []);
+
+  const handleThresholdChange = async (
+    id: string,
+    field: 'threshold' | 'media_threshold',
+    value: number
+  ) => {
+    if (!Number.isInteger(value) || value < 1) return;
+    setSavingId(id);
+    setError(null);
+    const { data, error: updateError } = await supabase
+      .from('verification_rules')
+      .update({ [field]: value })
+      .eq('id', id)
+      .select()
+      .single();
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      setRules((prev) => prev.map((r) => (r.id === id ? (data as VerificationRule) : r)));
+    }
+    setSavingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    setSavingId(id);
+    setError(null);
+    const { error: deleteError } = await supabase.from('verification_rules').delete().eq('id', id);
+    if (deleteError) {
+      setError(deleteError.message);
+    } else {
+      setRules((prev) => prev.filter((r) => r.id !== id));
+    }
+    setSavingId(null);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdding(true);
+    setError(null);
+    const region = draft.region.trim();
+    const { data, error: insertError } = await supabase
+      .from('verification_rules')
+      .insert({
+        activity_type: draft.activity_type.trim() || null,
+        region_name: region ? draft.region_name.trim() || null : null,
+        region: region || null,
+        threshold: draft.threshold,
+        media_threshold: draft.media_threshold,
+      })
+      .select()
+      .single();
+    if (insertError) {
+      setError(insertError.message);
+    } else {
+      setRules((prev) => [...prev, data as VerificationRule]);
+      setDraft(EMPTY_DRAFT);
+    }
+    setAdding(false);
+  };
+
+  return (
+    <section className="ice-panel mb-8">
+      <h2 className="ice-heading text-lg mb-2">Verification rules</h2>
+      <p className="ice-mono text-xs text-white/60 mb-4">
+        Validations needed before a sighting is verified. The most specific matching rule wins
+        (region + activity, then region, then activity, then the default). Region polygons use
+        (lng,lat) points, e.g. ((-74.05,40.68),(-73.9,40.68),(-73.9,40.88)).
+      </p>
+
+      {error && (
+        <div className="border-2 border-[var(--ice-red)] p-3 mb-4">
+          <p className="ice-mono text-xs text-[var(--ice-red)]">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="ice-mono text-white/60">Loading rules…</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full ice-mono text-sm">
+            <thead>
+              <tr className="border-b-2 border-white/20">
+                <th className="text-left px-4 py-3 text-white/60">Applies to</th>
+                <th className="text-left px-4 py-3 text-white/60">Threshold</th>
+                <th className="text-left px-4 py-3 text-white/60">With media</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const isDefault = !rule.activity_type && !rule.region;
+                return (
+                  <tr key={rule.id} className="border-b border-white/10">
+                    <td className="px-4 py-3 text-white/80">
+                      {isDefault ? 'Default' : describeRule(rule)}
+                      {rule.region && (
+                        <span className="block text-xs text-white/40">{rule.region}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min={1}
+                        max={50}
+                        defaultValue={rule.threshold}
+                        disabled={savingId === rule.id}
+                        onBlur={(e) =>
+                          Number(e.target.value) !== rule.threshold &&
+                          handleThresholdChange(rule.id, 'threshold', Number(e.target.value))
+                        }
+                        className={`${inputClass} w-20`}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min={1}
+                        max={50}
+                        defaultValue={rule.media_threshold}
+                        disabled={savingId === rule.id}
+                        onBlur={(e) =>
+                          Number(e.target.value) !== rule.media_threshold &&
+                          handleThresholdChange(rule.id, 'media_threshold', Number(e.target.value))
+                        }
+                        className={`${inputClass} w-20`}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!isDefault && (
+                        <button
+                          onClick={() => handleDelete(rule.id)}
+                          disabled={savingId === rule.id}
+                          className="ice-button ice-button--ghost"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="rule-activity" className="ice-mono text-xs text-white/80 block mb-1">
+            Activity type
+          </label>
+          <input
+            id="rule-activity"
+            value={draft.activity_type}
+            onChange={(e) => setDraft({ ...draft, activity_type: e.target.value })}
+            placeholder="Any"
+            maxLength={64}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-region-name" className="ice-mono text-xs text-white/80 block mb-1">
+            Region name
+          </label>
+          <input
+            id="rule-region-name"
+            value={draft.region_name}
+            onChange={(e) => setDraft({ ...draft, region_name: e.target.value })}
+            placeholder="e.g. Downtown"
+            maxLength={64}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex-1 min-w-[200px]">
+          <label htmlFor="rule-region" className="ice-mono text-xs text-white/80 block mb-1">
+            Region polygon
+          </label>
+          <input
+            id="rule-region"
+            value={draft.region}
+            onChange={(e) => setDraft({ ...draft, region: e.target.value })}
+            placeholder="Everywhere"
+            className={`${inputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-threshold" className="ice-mono text-xs text-white/80 block mb-1">
+            Threshold
+          </label>
+          <input
+            id="rule-threshold"
+            type="number"
+            min={1}
+            max={50}
+            value={draft.threshold}
+            onChange={(e) => setDraft({ ...draft, threshold: Number(e.target.value) })}
+            className={`${inputClass} w-20`}
+          />
+        </div>
+        <div>
+          <label htmlFor="rule-media-threshold" className="ice-mono text-xs text-white/80 block mb-1">
+            With media
+          </label>
+          <input
+            id="rule-media-threshold"
+            type="number"
+            min={1}
+            max={50}
+            value={draft.media_threshold}
+            onChange={(e) => setDraft({ ...draft, media_threshold: Number(e.target.value) })}
+            className={`${inputClass} w-20`}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={adding || (!draft.activity_type.trim() && !draft.region.trim())}
+          className="ice-button ice-button--alert"
+        >
+          {adding ? 'Adding…' : 'Add rule'}
+        </button>
+      </form>
+    </section>
+  );
+}
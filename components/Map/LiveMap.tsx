@@ -1,10 +1,21 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Circle, Popup, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { supabase, type Sighting } from '@/lib/supabase/browser';
+import type { Sighting } from '@/lib/supabase/browser';
+import { getStatusDisplay, isLiveStatus, type StatusGroup } from '@/lib/sightings/status';
+import {
+  fetchLatestSightingLocation,
+  fetchSightingsInBounds,
+  isInBounds,
+  VIEWPORT_MAX_SIGHTINGS,
+  type ViewportBounds,
+} from '@/lib/sightings/viewport';
+import { useSightingChanges } from '@/lib/sightings/realtime';
+import { clusterPoints } from '@/lib/geo/cluster';
+import { getFuzzRadiusMeters } from '@/lib/geo/precision';
 
 // Fix for default marker icons in Next.js
 if (typeof window !== 'undefined') {
@@ -53,108 +64,266 @@ function createHistoricalIcon(): L.DivIcon {
   });
 }
 
-// Component to update map bounds when sightings change
-function MapUpdater({ sightings }: { sightings: Sighting[] }) {
-  const map = useMap();
-  
-  useEffect(() => {
-    if (sightings.length === 0) return;
-    
-    const bounds = L.latLngBounds(
-      sightings.map(s => [s.lat, s.lng] as [number, number])
-    );
-    map.fitBounds(bounds, { padding: [50, 50] });
-  }, [sightings, map]);
-  
-  return null;
+// Fuzzed sightings are drawn as an area in the marker's colour instead of a pin
+const AREA_COLORS: Record<StatusGroup, string> = {
+  unverified: '#ffd700',
+  verified: '#ff3b30',
+  historic: '#666666',
+};
+
+/** Clusters are split into individual markers from this zoom level */
+const CLUSTER_MAX_ZOOM = 16;
+/** Wait for panning/zooming to settle before querying the new viewport */
+const VIEWPORT_DEBOUNCE_MS = 250;
+
+const GROUP_PRIORITY: StatusGroup[] = ['verified', 'unverified', 'historic'];
+
+// Clusters take the colour of the most urgent status they contain
+function createClusterIcon(sightings: Sighting[]): L.DivIcon {
+  const groups = new Set(sightings.map((s) => getStatusDisplay(s.status).group));
+  const group = GROUP_PRIORITY.find((g) => groups.has(g)) ?? 'unverified';
+  const size = sightings.length < 10 ? 32 : sightings.length < 100 ? 40 : 48;
+  return L.divIcon({
+    className: 'sighting-cluster-marker',
+    html: `<div class="sighting-cluster sighting-cluster--${group}" style="width:${size}px;height:${size}px">${sightings.length}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
 }
 
-interface LiveMapProps {
+function toViewportBounds(map: L.Map): ViewportBounds {
+  const bounds = map.getBounds();
+  return { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() };
+}
+
+type ViewportStatus = { loading: boolean; truncated: boolean; error: string | null };
+
+interface SightingLayerProps {
   onMarkerClick?: (sighting: Sighting) => void;
-  showActiveOnly?: boolean;
+  showActiveOnly: boolean;
+  onStatusChange: (status: ViewportStatus) => void;
+  onViewportChange?: (bounds: ViewportBounds) => void;
 }
 
-export default function LiveMap({ onMarkerClick, showActiveOnly = false }: LiveMapProps) {
+// Loads the sightings inside the current viewport and renders them as clusters, pins or areas
+function SightingLayer({ onMarkerClick, showActiveOnly, onStatusChange, onViewportChange }: SightingLayerProps) {
+  const map = useMap();
   const [sightings, setSightings] = useState<Sighting[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const subscriptionRef = useRef<any>(null);
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const [viewport, setViewport] = useState<ViewportBounds>(() => toViewportBounds(map));
+  const boundsRef = useRef<ViewportBounds>(viewport);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useMapEvents({
+    moveend: () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+      onStatusChange({ loading: true, truncated: false, error: null });
+      debounceRef.current = setTimeout(() => setViewport(toViewportBounds(map)), VIEWPORT_DEBOUNCE_MS);
+    },
+    zoomend: () => setZoom(map.getZoom()),
+  });
 
+  // Load the viewport; a newer viewport aborts the previous request
   useEffect(() => {
-    // Initial load
+    const controller = new AbortController();
+    boundsRef.current = viewport;
+
     async function loadSightings() {
       try {
-        const now = new Date();
-        const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        
-        let query = supabase
-          .from('sightings')
-          .select('*')
-          .order('event_time', { ascending: false });
-        
-        if (showActiveOnly) {
-          query = query.gte('event_time', twentyFourHoursAgo.toISOString());
-        }
-        
-        const { data, error: fetchError } = await query;
-        
-        if (fetchError) {
-          console.error('Supabase error:', fetchError);
-          throw new Error(fetchError.message || 'Failed to load sightings');
-        }
-        setSightings(data || []);
-        setLoading(false);
+        const result = await fetchSightingsInBounds(viewport, {
+          liveOnly: showActiveOnly,
+          signal: controller.signal,
+        });
+        if (controller.signal.aborted) return;
+        setSightings(result.sightings);
+        onStatusChange({ loading: false, truncated: result.truncated, error: null });
+        onViewportChange?.(viewport);
       } catch (err) {
         const isAborted =
+          controller.signal.aborted ||
           (err instanceof Error && err.name === 'AbortError') ||
           (err instanceof Error && err.message?.includes('AbortError'));
-        if (isAborted) {
-          setLoading(false);
-          return;
-        }
+        if (isAborted) return;
         const errorMessage = err instanceof Error ? err.message : 'Failed to load sightings';
         console.error('Error loading sightings:', err);
-        setError(errorMessage);
-        setLoading(false);
+        onStatusChange({ loading: false, truncated: false, error: errorMessage });
       }
     }
 
     loadSightings();
 
-    // Subscribe to realtime changes
-    const channel = supabase
-      .channel('sightings-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'sightings',
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            setSightings((prev) => [payload.new as Sighting, ...prev]);
-          } else if (payload.eventType === 'UPDATE') {
-            setSightings((prev) =>
-              prev.map((s) => (s.id === payload.new.id ? (payload.new as Sighting) : s))
-            );
-          } else if (payload.eventType === 'DELETE') {
-            setSightings((prev) => prev.filter((s) => s.id !== payload.old.id));
-          }
+    return () => controller.abort();
+  }, [viewport, showActiveOnly, onStatusChange, onViewportChange]);
+
+  // Rows outside the viewport are picked up on the next pan
+  useSightingChanges((change) => {
+    if (change.type === 'resync') {
+      setViewport(toViewportBounds(map));
+    } else if (change.type === 'remove') {
+      setSightings((prev) => prev.filter((s) => s.id !== change.id));
+    } else {
+      const updated = change.sighting;
+      const isShown =
+        updated.moderation_state === 'visible' &&
+        (!showActiveOnly || isLiveStatus(updated.status)) &&
+        isInBounds(updated, boundsRef.current);
+      setSightings((prev) => {
+        if (!isShown) return prev.filter((s) => s.id !== updated.id);
+        // New and restored sightings are not in the list yet
+        return prev.some((s) => s.id === updated.id)
+          ? prev.map((s) => (s.id === updated.id ? updated : s))
+          : [updated, ...prev];
+      });
+    }
+  });
+
+  useEffect(
+    () => () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    },
+    []
+  );
+
+  const clusters = useMemo(() => {
+    const points = sightings.map((sighting) => ({ item: sighting, lat: sighting.lat, lng: sighting.lng }));
+    if (zoom >= CLUSTER_MAX_ZOOM) {
+      return points.map((point) => ({ key: point.item.id, items: [point.item], lat: point.lat, lng: point.lng, bounds: null }));
+    }
+    return clusterPoints(points, (lat, lng) => map.project([lat, lng], zoom));
+  }, [sightings, zoom, map]);
+
+  return (
+    <>
+      {clusters.map((cluster) => {
+        if (cluster.items.length > 1 && cluster.bounds) {
+          const { south, west, north, east } = cluster.bounds;
+          return (
+            <Marker
+              key={`cluster:${cluster.key}`}
+              position={[cluster.lat, cluster.lng]}
+              icon={createClusterIcon(cluster.items)}
+              eventHandlers={{
+                click: () => {
+                  // Stacked points (same location) cannot be separated by fitting their bounds
+                  if (south === north && west === east) {
+                    map.setView([cluster.lat, cluster.lng], Math.max(zoom + 2, CLUSTER_MAX_ZOOM));
+                  } else {
+                    map.fitBounds(
+                      [
+                        [south, west],
+                        [north, east],
+                      ],
+                      { padding: [50, 50] }
+                    );
+                  }
+                },
+              }}
+            />
+          );
+        }
+
+        const sighting = cluster.items[0];
+        const { group } = getStatusDisplay(sighting.status);
+        const icon =
+          sighting.status === 'confirmed'
+            ? createConfirmedIcon()
+            : group === 'verified'
+              ? createVerifiedIcon()
+              : group === 'historic'
+                ? createHistoricalIcon()
+                : createUnverifiedIcon();
+
+        const eventHandlers = {
+          click: () => {
+            if (onMarkerClick) {
+              onMarkerClick(sighting);
+            }
+          },
+        };
+        const popup = (
+          <Popup>
+            <div className="font-mono text-xs text-black">
+              <p className="font-bold">{sighting.activity_type}</p>
+              <p className="text-gray-600">
+                {new Date(sighting.event_time).toLocaleString()}
+              </p>
+              {sighting.notes && <p className="mt-1">{sighting.notes}</p>}
+              {sighting.location_precision_m > 0 && (
+                <p className="mt-1 text-gray-600">
+                  Approximate location (±{getFuzzRadiusMeters(sighting.location_precision_m)} m)
+                </p>
+              )}
+              <p className="mt-1 text-xs">
+                Status: {sighting.status === 'confirmed' ? 'Confirmed (Level 3)' : getStatusDisplay(sighting.status).label} ({sighting.validations_count} validations)
+              </p>
+            </div>
+          </Popup>
+        );
+
+        if (sighting.location_precision_m) {
+          const color = AREA_COLORS[group];
+          return (
+            <Circle
+              key={sighting.id}
+              center={[sighting.lat, sighting.lng]}
+              radius={getFuzzRadiusMeters(sighting.location_precision_m)}
+              pathOptions={{
+                color,
+                fillColor: color,
+                fillOpacity: 0.2,
+                weight: 2,
+                dashArray: group === 'unverified' ? '6 4' : undefined,
+              }}
+              eventHandlers={eventHandlers}
+            >
+              {popup}
+            </Circle>
+          );
         }
-      )
-      .subscribe();
 
-    subscriptionRef.current = channel;
+        return (
+          <Marker
+            key={sighting.id}
+            position={[sighting.lat, sighting.lng]}
+            icon={icon}
+            eventHandlers={eventHandlers}
+          >
+            {popup}
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
+
+interface LiveMapProps {
+  onMarkerClick?: (sighting: Sighting) => void;
+  showActiveOnly?: boolean;
+  /** Called with the map bounds each time a new viewport has loaded */
+  onViewportChange?: (bounds: ViewportBounds) => void;
+}
+
+// Default to NYC when there are no sightings to centre on
+const DEFAULT_CENTER: [number, number] = [40.7128, -74.006];
+
+export default function LiveMap({ onMarkerClick, showActiveOnly = false, onViewportChange }: LiveMapProps) {
+  const [center, setCenter] = useState<[number, number] | null>(null);
+  const [status, setStatus] = useState<ViewportStatus>({ loading: true, truncated: false, error: null });
 
+  // Centre on the latest sighting once; after that the viewport drives what is loaded
+  useEffect(() => {
+    let cancelled = false;
+    async function loadCenter() {
+      const latest = await fetchLatestSightingLocation(showActiveOnly).catch(() => null);
+      if (!cancelled) setCenter((prev) => prev ?? (latest ? [latest.lat, latest.lng] : DEFAULT_CENTER));
+    }
+    loadCenter();
     return () => {
-      if (subscriptionRef.current) {
-        supabase.removeChannel(subscriptionRef.current);
-      }
+      cancelled = true;
     };
   }, [showActiveOnly]);
 
-  if (loading) {
+  if (!center) {
     return (
       <div className="flex h-full w-full items-center justify-center bg-black text-white">
         <p className="font-mono text-sm">LOADING MAP...</p>
@@ -162,21 +331,10 @@ export default function LiveMap({ onMarkerClick, showActiveOnly = false }: LiveM
     );
   }
 
-  if (error) {
-    return (
-      <div className="flex h-full w-full items-center justify-center bg-black text-red-500">
-        <p className="font-mono text-sm">ERROR: {error}</p>
-      </div>
-    );
-  }
-
-  const now = new Date();
-  const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-
   return (
-    <>
+    <div className="relative h-full w-full">
       <MapContainer
-        center={[40.7128, -74.0060]} // Default to NYC, will be adjusted by MapUpdater
+        center={center}
         zoom={13}
         style={{ height: '100%', width: '100%', zIndex: 0 }}
         className="dark-map"
@@ -185,47 +343,24 @@ export default function LiveMap({ onMarkerClick, showActiveOnly = false }: LiveM
           url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
         />
-        <MapUpdater sightings={sightings} />
-        {sightings.map((sighting) => {
-          const isHistorical = new Date(sighting.event_time) < twentyFourHoursAgo;
-          const icon =
-            sighting.status === 'confirmed'
-              ? createConfirmedIcon()
-              : sighting.status === 'verified' || sighting.status === 'active'
-                ? createVerifiedIcon()
-                : isHistorical
-                  ? createHistoricalIcon()
-                  : createUnverifiedIcon();
-
-          return (
-            <Marker
-              key={sighting.id}
-              position={[sighting.lat, sighting.lng]}
-              icon={icon}
-              eventHandlers={{
-                click: () => {
-                  if (onMarkerClick) {
-                    onMarkerClick(sighting);
-                  }
-                },
-              }}
-            >
-              <Popup>
-                <div className="font-mono text-xs text-black">
-                  <p className="font-bold">{sighting.activity_type}</p>
-                  <p className="text-gray-600">
-                    {new Date(sighting.event_time).toLocaleString()}
-                  </p>
-                  {sighting.notes && <p className="mt-1">{sighting.notes}</p>}
-                  <p className="mt-1 text-xs">
-                    Status: {sighting.status === 'confirmed' ? 'Confirmed (Level 3)' : sighting.status} ({sighting.validations_count} validations)
-                  </p>
-                </div>
-              </Popup>
-            </Marker>
-          );
-        })}
+        <SightingLayer
+          onMarkerClick={onMarkerClick}
+          showActiveOnly={showActiveOnly}
+          onStatusChange={setStatus}
+          onViewportChange={onViewportChange}
+        />
       </MapContainer>
+      {(status.loading || status.truncated || status.error) && (
+        <div className="pointer-events-none absolute left-1/2 top-3 z-[500] -translate-x-1/2 border border-white/20 bg-black/80 px-3 py-1 font-mono text-xs">
+          {status.error ? (
+            <span className="text-red-500">ERROR: {status.error}</span>
+          ) : status.loading ? (
+            <span className="text-white/70">LOADING SIGHTINGS...</span>
+          ) : (
+            <span className="text-[#ffd700]">Showing the newest {VIEWPORT_MAX_SIGHTINGS} sightings here. Zoom in to see more.</span>
+          )}
+        </div>
+      )}
       <style jsx global>{`
         .dark-map {
           background-color: #000000;
@@ -285,7 +420,34 @@ export default function LiveMap({ onMarkerClick, showActiveOnly = false }: LiveM
           border-radius: 50%;
           border: 1px solid #666666;
         }
+        .sighting-cluster-marker {
+          background: transparent;
+          border: none;
+        }
+        .sighting-cluster {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          border-radius: 50%;
+          border: 2px solid #ffffff;
+          font-family: monospace;
+          font-size: 12px;
+          font-weight: 700;
+        }
+        .sighting-cluster--verified {
+          background-color: #ff3b30;
+          color: #ffffff;
+        }
+        .sighting-cluster--unverified {
+          background-color: #ffd700;
+          color: #000000;
+        }
+        .sighting-cluster--historic {
+          background-color: #4a4a4a;
+          color: #ffffff;
+          border-color: #666666;
+        }
       `}</style>
-    </>
+    </div>
   );
 }
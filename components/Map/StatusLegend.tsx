@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase/browser';
+import type { StatusGroup } from '@/lib/sightings/status';
+import { useSightingChanges } from '@/lib/sightings/realtime';
+import { normalizeBounds, type ViewportBounds } from '@/lib/sightings/viewport';
+
+type CountWindow = '24h' | '7d' | 'all';
+
+const COUNT_WINDOWS: Array<{ id: CountWindow; label: string; hours: number | null }> = [
+  { id: '24h', label: '24H', hours: 24 },
+  { id: '7d', label: '7D', hours: 24 * 7 },
+  { id: 'all', label: 'All', hours: null },
+];
+
+const GROUPS: Array<{ group: StatusGroup; label: string; pillClass: string }> = [
+  { group: 'unverified', label: 'Unverified', pillClass: 'border-[#ffd700] text-[#ffd700]' },
+  { group: 'verified', label: 'Verified', pillClass: 'border-[#ff3b30] text-[#ff3b30]' },
+  { group: 'historic', label: 'Historic', pillClass: 'border-[#4a4a4a] text-[#4a4a4a]' },
+];
+
+/** Coalesce bursts of realtime events into one recount */
+const REFRESH_DEBOUNCE_MS = 1000;
+
+interface StatusLegendProps {
+  /** Current LiveMap bounds; null until the map has loaded */
+  viewport: ViewportBounds | null;
+}
+
+/**
+ * "Current Status" counts per marker group from the sighting_status_counts RPC, which groups statuses
+ * the same way as getStatusDisplay. Recounts on realtime changes.
+ */
+export default function StatusLegend({ viewport }: StatusLegendProps) {
+  const [countWindow, setCountWindow] = useState<CountWindow>('7d');
+  const [inView, setInView] = useState(true);
+  const [counts, setCounts] = useState<Record<StatusGroup, number> | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const bounds = inView && viewport ? normalizeBounds(viewport) : null;
+  const south = bounds?.south ?? null;
+  const west = bounds?.west ?? null;
+  const north = bounds?.north ?? null;
+  const east = bounds?.east ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadCounts() {
+      const hours = COUNT_WINDOWS.find((w) => w.id === countWindow)?.hours ?? null;
+      const { data, error } = await supabase
+        .rpc('sighting_status_counts', {
+          p_since: hours ? new Date(Date.now() - hours * 60 * 60 * 1000).toISOString() : null,
+          p_south: south,
+          p_west: west,
+          p_north: north,
+          p_east: east,
+        })
+        .single();
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading status counts:', error);
+        return;
+      }
+      setCounts(data as Record<StatusGroup, number>);
+    }
+
+    loadCounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [countWindow, south, west, north, east, refreshKey]);
+
+  useSightingChanges(() => {
+    if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(() => setRefreshKey((key) => key + 1), REFRESH_DEBOUNCE_MS);
+  });
+
+  useEffect(
+    () => () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    },
+    []
+  );
+
+  return (
+    <div className="ice-panel p-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="ice-heading text-sm">Current Status</p>
+        <div className="flex gap-1">
+          {COUNT_WINDOWS.map(({ id, label }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setCountWindow(id)}
+              className={`ice-pill text-[10px] ${countWindow === id ? '' : 'text-white/60'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="mt-3 space-y-3 text-xs">
+        {GROUPS.map(({ group, label, pillClass }) => (
+          <div key={group} className="flex items-center justify-between">
+            <span className="ice-mono text-white/60">{label}</span>
+            <span className={`ice-pill ${pillClass}`}>{counts ? counts[group] : '—'}</span>
+          </div>
+        ))}
+      </div>
+      <label className="ice-mono mt-3 flex items-center gap-2 text-[10px] uppercase text-white/60">
+        <input type="checkbox" checked={inView} onChange={(e) => setInView(e.target.checked)} />
+        Only in map view
+      </label>
+    </div>
+  );
+}
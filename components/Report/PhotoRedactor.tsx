@@ -0,0 +1,174 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  canSuggestRedactions,
+  suggestRedactions,
+  type RedactionRegion,
+} from '@/lib/media/redaction';
+
+interface PhotoRedactorProps {
+  src: string;
+  alt: string;
+  regions: RedactionRegion[];
+  onChange: (regions: RedactionRegion[]) => void;
+}
+
+type Point = { x: number; y: number };
+
+/** Drags smaller than this (fraction of the image) are treated as clicks */
+const MIN_REGION_SIZE = 0.02;
+
+const SOURCE_LABELS: Record<RedactionRegion['source'], string> = {
+  manual: 'Blur',
+  face: 'Face',
+  plate: 'Plate',
+};
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function toRegion(start: Point, end: Point): RedactionRegion {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+    source: 'manual',
+  };
+}
+
+/**
+ * Draw rectangles over a photo (or accept detected faces/plates) to pixelate them before upload.
+ * Regions are stored normalized; the pixelation itself happens in scrubImageExif.
+ */
+export default function PhotoRedactor({ src, alt, regions, onChange }: PhotoRedactorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  const [detectMessage, setDetectMessage] = useState<string | null>(null);
+
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toPoint(e);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDragEnd(toPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (dragStart && dragEnd) {
+      const region = toRegion(dragStart, dragEnd);
+      if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+        onChange([...regions, region]);
+      }
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const handleSuggest = async () => {
+    if (!imageRef.current || detecting) return;
+    setDetecting(true);
+    setDetectMessage(null);
+    const suggested = await suggestRedactions(imageRef.current);
+    if (suggested.length === 0) {
+      setDetectMessage('No faces or plates detected. Draw over anything that should be hidden.');
+    } else {
+      onChange([...regions, ...suggested]);
+      setDetectMessage(`Added ${suggested.length} suggested region${suggested.length === 1 ? '' : 's'}. Check them before submitting.`);
+    }
+    setDetecting(false);
+  };
+
+  const draft = dragStart && dragEnd ? toRegion(dragStart, dragEnd) : null;
+
+  return (
+    <div className="ice-panel p-2">
+      <div
+        ref={containerRef}
+        className="relative cursor-crosshair touch-none select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img ref={imageRef} src={src} alt={alt} draggable={false} className="block h-auto w-full" />
+        {regions.map((region, idx) => (
+          <div
+            key={idx}
+            className="absolute border-2 border-[#ff3b30] bg-black/70"
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+          >
+            <span className="ice-mono absolute left-0 top-0 bg-[#ff3b30] px-1 text-[10px] text-black">
+              {SOURCE_LABELS[region.source]}
+            </span>
+            <button
+              type="button"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onChange(regions.filter((_, i) => i !== idx))}
+              className="absolute right-0 top-0 h-5 w-5 bg-black text-xs text-white"
+              aria-label="Remove blur region"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {draft && (
+          <div
+            className="pointer-events-none absolute border-2 border-dashed border-[#ffd700]"
+            style={{
+              left: `${draft.x * 100}%`,
+              top: `${draft.y * 100}%`,
+              width: `${draft.width * 100}%`,
+              height: `${draft.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {canSuggestRedactions() && (
+          <button
+            type="button"
+            onClick={handleSuggest}
+            disabled={detecting}
+            className="ice-button ice-button--ghost"
+          >
+            {detecting ? 'Detecting…' : 'Suggest faces & plates'}
+          </button>
+        )}
+        {regions.length > 0 && (
+          <button type="button" onClick={() => onChange([])} className="ice-button ice-button--ghost">
+            Clear blur
+          </button>
+        )}
+      </div>
+      <p className="ice-mono mt-2 text-xs text-white/60">
+        Drag over faces and license plates to pixelate them before upload.
+        {regions.length > 0 && ` ${regions.length} region${regions.length === 1 ? '' : 's'} will be blurred.`}
+      </p>
+      {detectMessage && <p className="ice-mono mt-1 text-xs text-[#ffd700]">{detectMessage}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import type { FlagReason } from '@/lib/supabase/browser';
+import { getDeviceFingerprint } from '@/lib/privacy/device';
+import { FLAG_REASON_LABELS } from '@/lib/sightings/flags';
+
+interface FlagReportFormProps {
+  sightingId: string;
+}
+
+export default function FlagReportForm({ sightingId }: FlagReportFormProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<FlagReason>('personal_info');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting || submitted) return;
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/flags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sighting_id: sightingId,
+          reason,
+          details: details.trim() || null,
+          device_id: await getDeviceFingerprint(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        setError((data.error as string) || 'Failed to flag sighting.');
+      } else {
+        setSubmitted(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to flag sighting.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="ice-mono w-full text-center text-xs text-white/50 underline hover:text-white"
+      >
+        Flag this report
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="ice-panel space-y-3 p-3">
+      <p className="ice-mono text-xs text-white/60">
+        Flag personal info, faces, spam, duplicates or a wrong location. Reports with several
+        flags are hidden until a moderator reviews them.
+      </p>
+      {error && <p className="ice-mono text-xs text-[#ff3b30]">{error}</p>}
+      {submitted ? (
+        <p className="ice-mono text-xs text-[#ffd700]">Thanks — a moderator will review this report.</p>
+      ) : (
+        <>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as FlagReason)}
+            className="ice-input w-full bg-black"
+            aria-label="Flag reason"
+          >
+            {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map((value) => (
+              <option key={value} value={value}>
+                {FLAG_REASON_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Details (optional)"
+            className="ice-input w-full"
+            rows={2}
+            maxLength={500}
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setOpen(false)}
+              className="ice-button ice-button--ghost flex-1"
+            >
+              Cancel
+            </button>
+            <button type="submit" disabled={submitting} className="ice-button ice-button--alert flex-1">
+              {submitting ? 'Sending…' : 'Flag'}
+            </button>
+          </div>
+        </>
+      )}
+    </form>
+  );
+}
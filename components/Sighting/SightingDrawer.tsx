@@ -1,39 +1,52 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import FingerprintJS from '@fingerprintjs/fingerprintjs';
-import { supabase, type Sighting } from '@/lib/supabase/browser';
-import { isWithinProximity } from '@/lib/geo/haversine';
+import { supabase, type Sighting, type ValidationVote } from '@/lib/supabase/browser';
+import { getValidationRadius } from '@/lib/geo/haversine';
+import { getDeviceFingerprint } from '@/lib/privacy/device';
+import { generateValidatorHash } from '@/lib/privacy/hash';
+import {
+  formatValidationScore,
+  getNetValidationScore,
+  getStatusDisplay,
+  isLiveStatus,
+  isVerifiedStatus,
+} from '@/lib/sightings/status';
 import { useAuth } from '@/components/Auth/AuthProvider';
+import FlagReportForm from '@/components/Sighting/FlagReportForm';
+import StatusTimeline from '@/components/Sighting/StatusTimeline';
+
+const DISPUTE_VOTES: Array<{ value: Exclude<ValidationVote, 'confirm'>; label: string }> = [
+  { value: 'not_seen', label: 'Not seen' },
+  { value: 'gone', label: 'Gone / not there anymore' },
+  { value: 'false_report', label: 'False report' },
+];
 
 interface SightingDrawerProps {
   sighting: Sighting | null;
   onClose: () => void;
 }
 
-async function getDeviceFingerprint(): Promise<string> {
-  const fp = await FingerprintJS.load();
-  const result = await fp.get();
-  return result.visitorId;
-}
-
 export default function SightingDrawer({ sighting, onClose }: SightingDrawerProps) {
-  const { user, role } = useAuth();
-  const [validating, setValidating] = useState(false);
-  const [validationError, setValidationError] = useState<string | null>(null);
-  const [validationSuccess, setValidationSuccess] = useState(false);
-  const [confirming, setConfirming] = useState(false);
-  const [confirmError, setConfirmError] = useState<string | null>(null);
-  const [confirmSuccess, setConfirmSuccess] = useState(false);
+  const { user, session, role } = useAuth();
+  const [voting, setVoting] = useState<ValidationVote | null>(null);
+  const [voteError, setVoteError] = useState<string | null>(null);
+  const [votedFor, setVotedFor] = useState<ValidationVote | null>(null);
+  const [disputeVote, setDisputeVote] = useState<Exclude<ValidationVote, 'confirm'>>('gone');
+  const [statusReason, setStatusReason] = useState('');
+  const [statusWorking, setStatusWorking] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  // Outcome of this session's confirm/retract; the sighting prop is a snapshot and lags behind
+  const [statusResult, setStatusResult] = useState<'confirmed' | 'retracted' | null>(null);
 
   const isTrustedOrAdmin = role === 'trusted' || role === 'admin';
   const canConfirm = !!user && isTrustedOrAdmin;
 
-  const handleValidate = useCallback(async () => {
-    if (!sighting || validating || validationSuccess) return;
+  const handleVote = useCallback(async (vote: ValidationVote) => {
+    if (!sighting || voting || votedFor) return;
 
-    setValidating(true);
-    setValidationError(null);
+    setVoting(vote);
+    setVoteError(null);
 
     try {
       const position = await new Promise<GeolocationPosition>((resolve, reject) => {
@@ -44,73 +57,84 @@ export default function SightingDrawer({ sighting, onClose }: SightingDrawerProp
         });
       });
 
-      const userLat = position.coords.latitude;
-      const userLng = position.coords.longitude;
-
-      if (!isWithinProximity(userLat, userLng, sighting.lat, sighting.lng, 500)) {
-        setValidationError('You must be within 500 meters to validate this sighting.');
-        setValidating(false);
-        return;
-      }
-
-      const deviceFingerprint = await getDeviceFingerprint();
+      // Hash the visitorId per sighting so votes cannot be linked across sightings
+      const deviceFingerprint = await generateValidatorHash(sighting.id, await getDeviceFingerprint());
 
-      const { error } = await supabase.from('validations').insert({
-        sighting_id: sighting.id,
-        device_fingerprint: deviceFingerprint,
-        is_within_range: true,
-        ...(user?.id ? { validator_id: user.id } : {}),
+      // Distance is checked server-side; coordinates are discarded after the check
+      const res = await fetch('/api/validations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sighting_id: sighting.id,
+          vote,
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          device_fingerprint: deviceFingerprint,
+          validator_hash: await generateValidatorHash(sighting.id),
+          ...(session
+            ? { access_token: session.access_token, refresh_token: session.refresh_token }
+            : {}),
+        }),
       });
+      const data = await res.json().catch(() => ({}));
 
-      if (error) {
-        if (error.code === '23505') {
-          setValidationError('You have already validated this sighting.');
-        } else {
-          throw error;
-        }
+      if (!res.ok) {
+        setVoteError((data.error as string) || 'Failed to record your vote.');
       } else {
-        setValidationSuccess(true);
+        setVotedFor(vote);
       }
     } catch (err) {
       if (err instanceof GeolocationPositionError) {
         if (err.code === err.PERMISSION_DENIED) {
-          setValidationError('Location permission denied. Please enable location access to validate.');
+          setVoteError('Location permission denied. Please enable location access to vote.');
         } else {
-          setValidationError('Unable to get your location. Please try again.');
+          setVoteError('Unable to get your location. Please try again.');
         }
       } else {
-        setValidationError(err instanceof Error ? err.message : 'Failed to validate sighting.');
+        setVoteError(err instanceof Error ? err.message : 'Failed to record your vote.');
       }
     } finally {
-      setValidating(false);
+      setVoting(null);
     }
-  }, [sighting, user?.id, validating, validationSuccess]);
+  }, [sighting, session, voting, votedFor]);
 
-  const handleConfirm = useCallback(async () => {
-    if (!sighting || confirming || confirmSuccess) return;
+  const handleStatusAction = useCallback(async (action: 'confirm' | 'retract') => {
+    if (!sighting || statusWorking) return;
 
-    setConfirming(true);
-    setConfirmError(null);
+    const reason = statusReason.trim();
+    if (reason.length < 3) {
+      setStatusError('Enter a reason (at least 3 characters).');
+      return;
+    }
+
+    setStatusWorking(true);
+    setStatusError(null);
 
-    const { error } = await supabase
-      .from('sightings')
-      .update({ status: 'confirmed' })
-      .eq('id', sighting.id);
+    const { error } = await supabase.rpc(
+      action === 'confirm' ? 'confirm_sighting' : 'retract_confirmation',
+      { p_sighting_id: sighting.id, p_reason: reason }
+    );
 
     if (error) {
-      setConfirmError(error.message);
+      setStatusError(error.message);
     } else {
-      setConfirmSuccess(true);
+      setStatusResult(action === 'confirm' ? 'confirmed' : 'retracted');
+      setStatusReason('');
     }
-    setConfirming(false);
-  }, [sighting, confirming, confirmSuccess]);
+    setStatusWorking(false);
+  }, [sighting, statusReason, statusWorking]);
 
   if (!sighting) return null;
 
-  const isConfirmed = sighting.status === 'confirmed';
-  const isVerified = sighting.status === 'verified' || sighting.status === 'active' || isConfirmed;
-  const validationThreshold = sighting.media?.length ? 2 : 3;
-  const validationsNeeded = Math.max(0, validationThreshold - sighting.validations_count);
+  const statusDisplay = getStatusDisplay(sighting.status);
+  const isLive = isLiveStatus(sighting.status);
+  const isConfirmed =
+    statusResult === 'confirmed' || (sighting.status === 'confirmed' && statusResult !== 'retracted');
+  const isVerified = isVerifiedStatus(sighting.status);
+  const validationThreshold = sighting.validation_threshold;
+  const netScore = getNetValidationScore(sighting);
+  // Remaining score, in anonymous-device votes (weight 1)
+  const validationsNeeded = Math.max(0, Math.ceil(validationThreshold - netScore));
 
   return (
     <div className="ice-panel fixed bottom-0 left-0 right-0 z-50 max-h-[60vh] overflow-y-auto border-t-2 border-white p-6 sm:left-auto sm:right-6 sm:top-6 sm:bottom-auto sm:max-h-[80vh] sm:max-w-md sm:border-t-0">
@@ -139,18 +163,27 @@ export default function SightingDrawer({ sighting, onClose }: SightingDrawerProp
       <div className="mb-4 grid grid-cols-2 gap-3">
         <div className="ice-panel p-3">
           <p className="ice-mono text-xs text-white/60">Status</p>
-          <p
-            className={`ice-heading mt-1 text-lg ${
-              isConfirmed ? 'text-[#ff3b30]' : isVerified ? 'text-[#ff3b30]' : 'text-[#ffd700]'
-            }`}
-          >
-            {isConfirmed ? 'Confirmed' : isVerified ? 'Verified' : 'Unverified'}
+          <p className={`ice-heading mt-1 text-lg ${statusDisplay.textClass}`}>
+            {statusDisplay.label}
           </p>
         </div>
         <div className="ice-panel p-3">
-          <p className="ice-mono text-xs text-white/60">Validations</p>
+          <p className="ice-mono text-xs text-white/60">Score</p>
           <p className="ice-heading mt-1 text-lg">
-            {sighting.validations_count}/{validationThreshold}
+            {formatValidationScore(netScore)}/{validationThreshold}
+          </p>
+          <p className="ice-mono text-xs text-white/50">
+            {sighting.validations_count} validation{sighting.validations_count === 1 ? '' : 's'}, weighted, minus disputes
+          </p>
+        </div>
+        <div className="ice-panel col-span-2 p-3">
+          <p className="ice-mono text-xs text-white/60">Disputes</p>
+          <p className={`ice-heading mt-1 text-lg ${sighting.is_disputed ? 'text-[#ff3b30]' : ''}`}>
+            {formatValidationScore(sighting.dispute_score)}
+          </p>
+          <p className="ice-mono text-xs text-white/50">
+            {sighting.dispute_count} not seen / gone / false report vote{sighting.dispute_count === 1 ? '' : 's'}
+            {sighting.is_disputed ? ' — flagged as disputed' : ''}
           </p>
         </div>
       </div>
@@ -173,6 +206,12 @@ export default function SightingDrawer({ sighting, onClose }: SightingDrawerProp
                 ) : (
                   <video
                     src={`${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/sightings-media/${item.path}`}
+                    poster={
+                      item.thumbPath
+                        ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/sightings-media/${item.thumbPath}`
+                        : undefined
+                    }
+                    preload={item.thumbPath ? 'none' : 'metadata'}
                     controls
                     className="h-full w-full object-cover"
                   />
@@ -183,58 +222,110 @@ export default function SightingDrawer({ sighting, onClose }: SightingDrawerProp
         </div>
       )}
 
-      {!isVerified && (
-        <div className="space-y-3">
-          {validationError && (
+      {isLive && !isConfirmed && (
+        <div className="space-y-3 mb-4">
+          {voteError && (
             <div className="ice-panel border-2 border-[#ff3b30] p-3">
-              <p className="ice-mono text-xs text-[#ff3b30]">{validationError}</p>
+              <p className="ice-mono text-xs text-[#ff3b30]">{voteError}</p>
             </div>
           )}
-          {validationSuccess && (
+          {votedFor && (
             <div className="ice-panel border-2 border-[#ffd700] p-3">
               <p className="ice-mono text-xs text-[#ffd700]">
-                Validation recorded. {validationsNeeded - 1} more needed for verification.
+                {votedFor === 'confirm' ? 'Validation recorded.' : 'Dispute recorded.'} Tallies update shortly.
               </p>
             </div>
           )}
           <button
-            onClick={handleValidate}
-            disabled={validating || validationSuccess}
+            onClick={() => handleVote('confirm')}
+            disabled={!!voting || !!votedFor}
             className="ice-button ice-button--alert w-full"
           >
-            {validating
+            {voting === 'confirm'
               ? 'Validating...'
-              : validationSuccess
+              : votedFor === 'confirm'
               ? 'Validated'
+              : isVerified
+              ? 'Still there — corroborate'
               : `Validate Sighting (${validationsNeeded} needed)`}
           </button>
+          <div className="flex gap-2">
+            <select
+              value={disputeVote}
+              onChange={(e) => setDisputeVote(e.target.value as Exclude<ValidationVote, 'confirm'>)}
+              disabled={!!voting || !!votedFor}
+              className="ice-input flex-1 bg-black"
+              aria-label="Dispute reason"
+            >
+              {DISPUTE_VOTES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleVote(disputeVote)}
+              disabled={!!voting || !!votedFor}
+              className="ice-button ice-button--ghost"
+            >
+              {voting && voting !== 'confirm' ? 'Sending...' : votedFor && votedFor !== 'confirm' ? 'Disputed' : 'Dispute'}
+            </button>
+          </div>
           <p className="ice-mono text-xs text-white/50 text-center">
-            Requires location within 500m
+            Requires location within {getValidationRadius(sighting.location_precision_m)}m
           </p>
         </div>
       )}
 
-      {isVerified && !isConfirmed && canConfirm && (
+      {canConfirm && isLive && (isVerified || isConfirmed) && (
         <div className="space-y-3 mb-4">
-          {confirmError && (
+          {statusError && (
             <div className="ice-panel border-2 border-[#ff3b30] p-3">
-              <p className="ice-mono text-xs text-[#ff3b30]">{confirmError}</p>
+              <p className="ice-mono text-xs text-[#ff3b30]">{statusError}</p>
             </div>
           )}
-          {confirmSuccess && (
+          {statusResult && (
             <div className="ice-panel border-2 border-[#ffd700] p-3">
               <p className="ice-mono text-xs text-[#ffd700] text-center">
-                Sighting confirmed (Level 3).
+                {statusResult === 'confirmed'
+                  ? 'Sighting confirmed (Level 3).'
+                  : 'Confirmation retracted. Community votes decide the status again.'}
               </p>
             </div>
           )}
-          <button
-            onClick={handleConfirm}
-            disabled={confirming || confirmSuccess}
-            className="ice-button ice-button--alert w-full"
-          >
-            {confirming ? 'Confirming…' : confirmSuccess ? 'Confirmed' : 'Confirm sighting (Level 3)'}
-          </button>
+          <input
+            value={statusReason}
+            onChange={(e) => setStatusReason(e.target.value)}
+            placeholder={isConfirmed ? 'Why retract? (required)' : 'Why confirm? (required)'}
+            maxLength={500}
+            disabled={statusWorking}
+            className="ice-input w-full bg-black"
+          />
+          {isConfirmed ? (
+            <button
+              onClick={() => handleStatusAction('retract')}
+              disabled={statusWorking}
+              className="ice-button ice-button--ghost w-full"
+            >
+              {statusWorking ? 'Retracting…' : 'Retract confirmation'}
+            </button>
+          ) : (
+            <button
+              onClick={() => handleStatusAction('confirm')}
+              disabled={statusWorking}
+              className="ice-button ice-button--alert w-full"
+            >
+              {statusWorking ? 'Confirming…' : 'Confirm sighting (Level 3)'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isLive && (
+        <div className="ice-panel border-2 border-[#4a4a4a] p-3">
+          <p className="ice-mono text-xs text-white/60 text-center">
+            This sighting is older than 24 hours and can no longer be validated.
+          </p>
         </div>
       )}
 
@@ -247,6 +338,14 @@ export default function SightingDrawer({ sighting, onClose }: SightingDrawerProp
           </p>
         </div>
       )}
+
+      <div className="mt-4">
+        <StatusTimeline key={`${sighting.id}:${statusResult}`} sightingId={sighting.id} />
+      </div>
+
+      <div className="mt-4">
+        <FlagReportForm key={sighting.id} sightingId={sighting.id} />
+      </div>
     </div>
   );
 }
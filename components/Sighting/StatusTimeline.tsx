@@ -0,0 +1,67 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase, type SightingStatusChange } from '@/lib/supabase/browser';
+import { getStatusDisplay } from '@/lib/sightings/status';
+
+/** Loads once per mount; re-key it to reload after a status change */
+interface StatusTimelineProps {
+  sightingId: string;
+}
+
+const ACTOR_LABELS: Record<SightingStatusChange['actor_role'], string> = {
+  system: 'community / system',
+  anonymous: 'user',
+  trusted: 'trusted verifier',
+  admin: 'admin',
+};
+
+export default function StatusTimeline({ sightingId }: StatusTimelineProps) {
+  const [changes, setChanges] = useState<SightingStatusChange[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      const { data, error: queryError } = await supabase
+        .from('sighting_status_history')
+        .select('id, created_at, sighting_id, from_status, to_status, actor_role, reason')
+        .eq('sighting_id', sightingId)
+        .order('created_at', { ascending: true });
+      if (queryError) {
+        setError(queryError.message);
+      } else {
+        setError(null);
+        setChanges((data as SightingStatusChange[]) ?? []);
+      }
+    }
+    load();
+  }, [sightingId]);
+
+  if (error) {
+    return <p className="ice-mono text-xs text-[#ff3b30]">Could not load history: {error}</p>;
+  }
+  if (changes.length === 0) return null;
+
+  return (
+    <div>
+      <p className="ice-mono text-xs text-white/60 mb-2">History</p>
+      <ol className="border-l-2 border-white/20 pl-4 space-y-3">
+        {changes.map((change) => {
+          const display = getStatusDisplay(change.to_status);
+          return (
+            <li key={change.id} className="ice-mono text-xs">
+              <p>
+                <span className={display.textClass}>
+                  {change.from_status ? display.label : `Reported · ${display.label}`}
+                </span>
+                <span className="text-white/50"> by {ACTOR_LABELS[change.actor_role] ?? change.actor_role}</span>
+              </p>
+              <p className="text-white/40">{new Date(change.created_at).toLocaleString()}</p>
+              {change.reason && <p className="text-white/70 break-words">“{change.reason}”</p>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
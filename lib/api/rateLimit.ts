@@ -0,0 +1,48 @@
+import { createHmac } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Sliding-window rate limiting backed by public.consume_rate_limit().
+ * Keys (IP addresses, device ids) are HMAC'd with IDENTITY_PEPPER before they
+ * reach the database so raw identifiers are never stored.
+ */
+
+export type RateLimitRule = {
+  bucket: string;
+  windowSeconds: number;
+  max: number;
+};
+
+export function getClientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const first = forwarded.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return request.headers.get('x-real-ip');
+}
+
+function hashRateLimitKey(bucket: string, key: string): string {
+  const pepper = process.env.IDENTITY_PEPPER;
+  if (!pepper) throw new Error('Missing IDENTITY_PEPPER');
+  return createHmac('sha256', pepper).update(`${bucket}:${key}`).digest('hex');
+}
+
+/**
+ * Record one hit for `key` and report whether it is still within the rule.
+ * Returns false when the caller should be rejected.
+ */
+export async function consumeRateLimit(
+  service: SupabaseClient,
+  rule: RateLimitRule,
+  key: string
+): Promise<boolean> {
+  const { data, error } = await service.rpc('consume_rate_limit', {
+    p_bucket: rule.bucket,
+    p_key_hash: hashRateLimitKey(rule.bucket, key),
+    p_window_seconds: rule.windowSeconds,
+    p_max: rule.max,
+  });
+  if (error) throw new Error(`Rate limit check failed: ${error.message}`);
+  return data === true;
+}
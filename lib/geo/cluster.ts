@@ -0,0 +1,60 @@
+/**
+ * Screen-space grid clustering for map markers.
+ * Points are projected to pixels at the current zoom and bucketed into square cells; each cell with
+ * more than one point becomes a cluster at the points' centroid. Cheap enough to rerun on every zoom.
+ */
+
+export type ClusterPoint<T> = { item: T; lat: number; lng: number };
+
+export type Cluster<T> = {
+  key: string;
+  lat: number;
+  lng: number;
+  items: T[];
+  bounds: { south: number; west: number; north: number; east: number };
+};
+
+export const CLUSTER_CELL_PIXELS = 60;
+
+/**
+ * Group points whose projected position falls in the same grid cell.
+ * `project` converts a coordinate to pixels at the zoom being rendered (e.g. Leaflet's map.project).
+ */
+export function clusterPoints<T>(
+  points: ClusterPoint<T>[],
+  project: (lat: number, lng: number) => { x: number; y: number },
+  cellPixels: number = CLUSTER_CELL_PIXELS
+): Cluster<T>[] {
+  const cells = new Map<string, Cluster<T> & { latSum: number; lngSum: number }>();
+
+  for (const point of points) {
+    const { x, y } = project(point.lat, point.lng);
+    const key = `${Math.floor(x / cellPixels)}:${Math.floor(y / cellPixels)}`;
+    const cell = cells.get(key);
+    if (!cell) {
+      cells.set(key, {
+        key,
+        lat: point.lat,
+        lng: point.lng,
+        latSum: point.lat,
+        lngSum: point.lng,
+        items: [point.item],
+        bounds: { south: point.lat, west: point.lng, north: point.lat, east: point.lng },
+      });
+      continue;
+    }
+    cell.items.push(point.item);
+    cell.latSum += point.lat;
+    cell.lngSum += point.lng;
+    cell.bounds.south = Math.min(cell.bounds.south, point.lat);
+    cell.bounds.north = Math.max(cell.bounds.north, point.lat);
+    cell.bounds.west = Math.min(cell.bounds.west, point.lng);
+    cell.bounds.east = Math.max(cell.bounds.east, point.lng);
+  }
+
+  return Array.from(cells.values(), ({ latSum, lngSum, ...cluster }) => ({
+    ...cluster,
+    lat: latSum / cluster.items.length,
+    lng: lngSum / cluster.items.length,
+  }));
+}
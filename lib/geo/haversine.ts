@@ -1,3 +1,10 @@
+import { getFuzzRadiusMeters } from '@/lib/geo/precision';
+
+/**
+ * Maximum distance (meters) between a validator and a sighting
+ */
+export const VALIDATION_RADIUS_METERS = 500;
+
 /**
  * Calculate distance between two coordinates using Haversine formula
  * Returns distance in meters
@@ -22,16 +29,43 @@ export function haversineDistance(
   return R * c;
 }
 
+/**
+ * Validation radius for a sighting, widened by how far a fuzzed location can be from the true one
+ */
+export function getValidationRadius(locationPrecisionMeters: number | null | undefined): number {
+  return VALIDATION_RADIUS_METERS + getFuzzRadiusMeters(locationPrecisionMeters);
+}
+
 /**
  * Check if user is within proximity radius of a sighting
+ * (pass getValidationRadius(sighting.location_precision_m) for fuzzed sightings)
  */
 export function isWithinProximity(
   userLat: number,
   userLng: number,
   sightingLat: number,
   sightingLng: number,
-  radiusMeters: number = 500
+  radiusMeters: number = VALIDATION_RADIUS_METERS
 ): boolean {
   const distance = haversineDistance(userLat, userLng, sightingLat, sightingLng);
   return distance <= radiusMeters;
 }
+
+/**
+ * Initial bearing (degrees clockwise from north) from the first point towards the second
+ */
+export function initialBearing(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
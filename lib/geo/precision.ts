@@ -0,0 +1,54 @@
+/**
+ * Reporter-selectable location precision.
+ * Fuzzed reports are snapped to the centre of a grid cell (~100 m or ~500 m) before they leave
+ * the browser, and again by /api/sightings; the cell size is stored as sightings.location_precision_m.
+ */
+
+export type LocationPrecision = 0 | 100 | 500;
+
+export const LOCATION_PRECISIONS: Array<{ value: LocationPrecision; label: string; description: string }> = [
+  { value: 0, label: 'Exact', description: 'The point you picked on the map.' },
+  { value: 100, label: '~100 m', description: 'Snapped to a 100 m grid; shown as a small area.' },
+  { value: 500, label: '~500 m', description: 'Snapped to a 500 m grid; shown as a neighborhood-sized area.' },
+];
+
+const METERS_PER_DEGREE_LAT = 111_320;
+
+export function isLocationPrecision(value: unknown): value is LocationPrecision {
+  return LOCATION_PRECISIONS.some((p) => p.value === value);
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Snap a point to the centre of its grid cell. Cells are `precision` meters tall and (at the cell's
+ * latitude) wide, so the same cell always yields the same point and snapping twice is a no-op.
+ */
+export function snapToGrid(lat: number, lng: number, precision: LocationPrecision): { lat: number; lng: number } {
+  if (precision === 0) return { lat, lng };
+
+  const latStep = precision / METERS_PER_DEGREE_LAT;
+  const snappedLat = Math.min(90, Math.max(-90, (Math.floor(lat / latStep) + 0.5) * latStep));
+
+  const cosLat = Math.max(Math.cos((snappedLat * Math.PI) / 180), 0.01);
+  const lngStep = precision / (METERS_PER_DEGREE_LAT * cosLat);
+  const snappedLng = Math.min(180, Math.max(-180, (Math.floor(lng / lngStep) + 0.5) * lngStep));
+
+  return { lat: roundCoordinate(snappedLat), lng: roundCoordinate(snappedLng) };
+}
+
+/**
+ * Furthest the true location can be from a snapped point (half the cell diagonal), in meters.
+ * Used as the circle radius on the map and to widen the validation radius.
+ */
+export function getFuzzRadiusMeters(precision: number | null | undefined): number {
+  return precision ? Math.ceil(precision * Math.SQRT1_2) : 0;
+}
+
+/** Coordinates for display: exact points to four decimals, fuzzed points with their area */
+export function formatSightingLocation(sighting: { lat: number; lng: number; location_precision_m?: number | null }): string {
+  const coordinates = `${sighting.lat.toFixed(4)}, ${sighting.lng.toFixed(4)}`;
+  return sighting.location_precision_m ? `${coordinates} (±${getFuzzRadiusMeters(sighting.location_precision_m)} m)` : coordinates;
+}
@@ -0,0 +1,35 @@
+/**
+ * Locale-aware distance and direction formatting for the UI.
+ * Miles are used where they are the everyday road unit; everywhere else gets kilometres.
+ */
+
+const MILE_REGIONS = new Set(['US', 'GB', 'LR', 'MM']);
+const METERS_PER_MILE = 1609.344;
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+export function usesMiles(locale: string): boolean {
+  try {
+    const region = new Intl.Locale(locale).maximize().region;
+    return region ? MILE_REGIONS.has(region) : false;
+  } catch {
+    return false;
+  }
+}
+
+/** e.g. "0.4 mi" or "12 km"; one decimal below 10 units */
+export function formatDistance(meters: number, locale: string): string {
+  const miles = usesMiles(locale);
+  const value = miles ? meters / METERS_PER_MILE : meters / 1000;
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: miles ? 'mile' : 'kilometer',
+    unitDisplay: 'short',
+    maximumFractionDigits: value < 10 ? 1 : 0,
+  }).format(value);
+}
+
+/** Eight-point compass direction for a bearing in degrees */
+export function compassPoint(bearing: number): (typeof COMPASS_POINTS)[number] {
+  return COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+}
@@ -0,0 +1,574 @@
+/**
+ * Builds the metadata-stripping fixtures in this directory.
+ *
+ * Usage:
+ *   npx tsx lib/media/__fixtures__/generate.ts
+ *
+ * Pixels for JPEG, PNG and WebP come from sharp; the metadata is then written in by hand so each
+ * block holds a known marker (see index.ts). The HEIC file is a hand-assembled container: there is
+ * no HEVC encoder here, so its image item holds placeholder bytes, but the box layout (iinf, iloc,
+ * idat, irot) is what phones write and what stripImageMetadata walks. The videos are assembled the
+ * same way (no encoder either): real container structure around placeholder sample data.
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import sharp from 'sharp';
+import { concat } from '@/lib/media/bytes';
+import {
+  FIXTURE_DIR,
+  FIXTURE_DURATION_SECONDS,
+  FIXTURE_ORIENTATION,
+  GPS_LATITUDE,
+  GPS_LONGITUDE,
+  ISO6709_LOCATION,
+  SAMPLE_DATA_MARKER,
+  encodeRationals,
+} from './index';
+
+const WIDTH = 16;
+const HEIGHT = 8;
+
+const encoder = new TextEncoder();
+
+function text(value: string): Uint8Array {
+  return encoder.encode(value);
+}
+
+function u16(value: number): Uint8Array {
+  return new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+}
+
+function u32(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value);
+  return out;
+}
+
+function u32le(value: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, true);
+  return out;
+}
+
+// --- EXIF / XMP / IPTC payloads ---
+
+type IfdEntry = { tag: number; type: number; count: number; value: Uint8Array };
+
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+function asciiEntry(tag: number, value: string): IfdEntry {
+  return { tag, type: ASCII, count: value.length + 1, value: text(`${value}\0`) };
+}
+
+function ifdSize(entries: IfdEntry[]): number {
+  const overflow = entries.reduce((sum, e) => sum + (e.value.length > 4 ? e.value.length + (e.value.length & 1) : 0), 0);
+  return 2 + entries.length * 12 + 4 + overflow;
+}
+
+/** IFD at `offset` (from the TIFF header), with values that do not fit inline stored right after it */
+function buildIfd(entries: IfdEntry[], offset: number): Uint8Array {
+  const out = new Uint8Array(ifdSize(entries));
+  const view = new DataView(out.buffer);
+  view.setUint16(0, entries.length);
+  let dataPos = 2 + entries.length * 12 + 4;
+
+  entries.forEach((entry, i) => {
+    const pos = 2 + i * 12;
+    view.setUint16(pos, entry.tag);
+    view.setUint16(pos + 2, entry.type);
+    view.setUint32(pos + 4, entry.count);
+    if (entry.value.length <= 4) {
+      out.set(entry.value, pos + 8);
+    } else {
+      view.setUint32(pos + 8, offset + dataPos);
+      out.set(entry.value, dataPos);
+      dataPos += entry.value.length + (entry.value.length & 1);
+    }
+  });
+  return out;
+}
+
+/** Big-endian TIFF: IFD0 (Make, Model, Orientation, GPS pointer) and a GPS IFD */
+function buildExifTiff(): Uint8Array {
+  const ifd0Entries = (gpsOffset: number): IfdEntry[] => [
+    asciiEntry(0x010f, 'ICEOUT-MAKE'),
+    asciiEntry(0x0110, 'ICEOUT-MODEL'),
+    { tag: 0x0112, type: SHORT, count: 1, value: new Uint8Array([0, FIXTURE_ORIENTATION, 0, 0]) },
+    { tag: 0x8825, type: LONG, count: 1, value: u32(gpsOffset) },
+  ];
+  const gpsOffset = 8 + ifdSize(ifd0Entries(0));
+  const gpsEntries: IfdEntry[] = [
+    { tag: 0x0001, type: ASCII, count: 2, value: text('N\0') },
+    { tag: 0x0002, type: RATIONAL, count: 3, value: encodeRationals(GPS_LATITUDE) },
+    { tag: 0x0003, type: ASCII, count: 2, value: text('W\0') },
+    { tag: 0x0004, type: RATIONAL, count: 3, value: encodeRationals(GPS_LONGITUDE) },
+  ];
+
+  return concat([
+    new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]),
+    buildIfd(ifd0Entries(gpsOffset), 8),
+    buildIfd(gpsEntries, gpsOffset),
+  ]);
+}
+
+const XMP_PACKET = text(
+  '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    '<rdf:Description rdf:about="" xmlns:exif="http://ns.adobe.com/exif/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/"' +
+    ' exif:GPSLatitude="40,42.856N" exif:GPSLongitude="74,0.36W">' +
+    '<dc:description>ICEOUT-XMP</dc:description>' +
+    '</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="w"?>'
+);
+
+/** IPTC IIM record 2:90 (City) */
+function buildIptc(): Uint8Array {
+  const city = text('ICEOUT-IPTC');
+  return concat([new Uint8Array([0x1c, 0x02, 0x5a]), u16(city.length), city]);
+}
+
+// --- JPEG ---
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  return concat([new Uint8Array([0xff, marker]), u16(payload.length + 2), payload]);
+}
+
+async function buildJpeg(): Promise<Uint8Array> {
+  const base = new Uint8Array(
+    await sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: '#d62828' } })
+      .withIccProfile('srgb')
+      .jpeg()
+      .toBuffer()
+  );
+  const iptc = buildIptc();
+  const photoshop = concat([
+    text('Photoshop 3.0\0'),
+    text('8BIM'),
+    u16(0x0404),
+    new Uint8Array([0, 0]), // empty resource name, padded to even length
+    u32(iptc.length),
+    iptc,
+    iptc.length & 1 ? new Uint8Array(1) : new Uint8Array(0),
+  ]);
+
+  return concat([
+    base.subarray(0, 2),
+    jpegSegment(0xe1, concat([text('Exif\0\0'), buildExifTiff()])),
+    jpegSegment(0xe1, concat([text('http://ns.adobe.com/xap/1.0/\0'), XMP_PACKET])),
+    jpegSegment(0xed, photoshop),
+    jpegSegment(0xfe, text('ICEOUT-COMMENT')),
+    base.subarray(2),
+    text('ICEOUT-TRAILER'),
+  ]);
+}
+
+// --- PNG ---
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const body = concat([text(type), data]);
+  return concat([u32(data.length), body, u32(crc32(body))]);
+}
+
+async function buildPng(): Promise<Uint8Array> {
+  const base = new Uint8Array(
+    await sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: '#003049' } }).png().toBuffer()
+  );
+  // Signature (8) + IHDR (25); metadata chunks go between IHDR and the image data
+  const ihdrEnd = 8 + 12 + new DataView(base.buffer).getUint32(8);
+  const iptcHex = Array.from(buildIptc(), (b) => b.toString(16).padStart(2, '0')).join('');
+
+  return concat([
+    base.subarray(0, ihdrEnd),
+    pngChunk('eXIf', buildExifTiff()),
+    pngChunk('iTXt', concat([text('XML:com.adobe.xmp\0'), new Uint8Array([0, 0]), text('\0\0'), XMP_PACKET])),
+    pngChunk('tEXt', text('Comment\0ICEOUT-COMMENT')),
+    pngChunk('tEXt', text(`Raw profile type iptc\0\niptc\n${String(iptcHex.length / 2).padStart(8)}\n${iptcHex}\n`)),
+    pngChunk('tIME', new Uint8Array([0x07, 0xe8, 1, 26, 14, 30, 0])),
+    base.subarray(ihdrEnd),
+    text('ICEOUT-TRAILER'),
+  ]);
+}
+
+// --- WebP ---
+
+function webpChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  return concat([text(fourcc), u32le(data.length), data, data.length & 1 ? new Uint8Array(1) : new Uint8Array(0)]);
+}
+
+/** Extended (VP8X) WebP: the lossy bitstream from sharp plus EXIF and XMP chunks */
+async function buildWebp(): Promise<Uint8Array> {
+  const base = new Uint8Array(
+    await sharp({ create: { width: WIDTH, height: HEIGHT, channels: 3, background: '#fcbf49' } }).webp().toBuffer()
+  );
+  const bitstream = base.subarray(12); // the "VP8 " chunk
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x08 | 0x04; // EXIF and XMP present
+  vp8x.set([(WIDTH - 1) & 0xff, ((WIDTH - 1) >> 8) & 0xff, 0], 4);
+  vp8x.set([(HEIGHT - 1) & 0xff, ((HEIGHT - 1) >> 8) & 0xff, 0], 7);
+
+  const body = concat([
+    text('WEBP'),
+    webpChunk('VP8X', vp8x),
+    bitstream,
+    webpChunk('EXIF', buildExifTiff()),
+    webpChunk('XMP ', XMP_PACKET),
+  ]);
+  return concat([text('RIFF'), u32le(body.length), body]);
+}
+
+// --- HEIC ---
+
+/** Box type as raw bytes: QuickTime types use © (0xA9), which must stay one byte */
+function fourcc(type: string): Uint8Array {
+  return Uint8Array.from(type, (c) => c.charCodeAt(0));
+}
+
+function box(type: string | Uint8Array, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  return concat([u32(8 + body.length), typeof type === 'string' ? fourcc(type) : type, body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, new Uint8Array([version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff]), ...payload);
+}
+
+function infe(itemId: number, itemType: string, contentType?: string): Uint8Array {
+  return fullBox(
+    'infe',
+    2,
+    0,
+    u16(itemId),
+    u16(0),
+    text(itemType),
+    text('\0'),
+    contentType ? text(`${contentType}\0`) : new Uint8Array(0)
+  );
+}
+
+/**
+ * ftyp, meta (hdlr, pitm, iinf, iloc, iprp with irot, idat) and mdat. Item 1 is the image (in mdat),
+ * item 2 the Exif block (in mdat, construction method 0), item 3 the XMP packet (in idat, method 1).
+ */
+function buildHeic(): Uint8Array {
+  const image = text(`${SAMPLE_DATA_MARKER}-HEVC`);
+  const exif = concat([u32(6), text('Exif\0\0'), buildExifTiff()]);
+
+  const buildMeta = (mdatDataStart: number) => {
+    const ilocItem = (itemId: number, constructionMethod: number, offset: number, length: number) =>
+      concat([u16(itemId), u16(constructionMethod), u16(0), u16(1), u32(offset), u32(length)]);
+    return fullBox(
+      'meta',
+      0,
+      0,
+      fullBox('hdlr', 0, 0, u32(0), text('pict'), new Uint8Array(12), text('\0')),
+      fullBox('pitm', 0, 0, u16(1)),
+      fullBox('iinf', 0, 0, u16(3), infe(1, 'hvc1'), infe(2, 'Exif'), infe(3, 'mime', 'application/rdf+xml')),
+      fullBox(
+        'iloc',
+        1,
+        0,
+        new Uint8Array([0x44, 0x00]), // offset_size 4, length_size 4, base_offset_size 0, index_size 0
+        u16(3),
+        ilocItem(1, 0, mdatDataStart, image.length),
+        ilocItem(2, 0, mdatDataStart + image.length, exif.length),
+        ilocItem(3, 1, 0, XMP_PACKET.length)
+      ),
+      box(
+        'iprp',
+        box('ipco', box('irot', new Uint8Array([1])), fullBox('ispe', 0, 0, u32(WIDTH), u32(HEIGHT))),
+        fullBox('ipma', 0, 0, u32(1), u16(1), new Uint8Array([2, 0x81, 0x02]))
+      ),
+      box('idat', XMP_PACKET)
+    );
+  };
+
+  const ftyp = box('ftyp', text('heic'), u32(0), text('mif1'), text('heic'));
+  // Box sizes do not depend on the offsets, so one sizing pass gives the final mdat position
+  const mdatDataStart = ftyp.length + buildMeta(0).length + 8;
+  return concat([ftyp, buildMeta(mdatDataStart), box('mdat', image, exif)]);
+}
+
+// --- MP4 / MOV ---
+
+const IDENTITY_MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+
+/** mvhd with the given timescale; version 1 stores times and duration as 64-bit values */
+function mvhd(version: 0 | 1, timescale: number): Uint8Array {
+  const duration = FIXTURE_DURATION_SECONDS * timescale;
+  const times = version === 1 ? new Uint8Array(16) : new Uint8Array(8);
+  return fullBox(
+    'mvhd',
+    version,
+    0,
+    times,
+    u32(timescale),
+    version === 1 ? concat([u32(0), u32(duration)]) : u32(duration),
+    u32(0x00010000), // rate 1.0
+    u16(0x0100), // volume 1.0
+    new Uint8Array(10),
+    IDENTITY_MATRIX,
+    new Uint8Array(24),
+    u32(2) // next track id
+  );
+}
+
+function trak(): Uint8Array {
+  return box(
+    'trak',
+    fullBox(
+      'tkhd',
+      0,
+      3,
+      new Uint8Array(8),
+      u32(1),
+      u32(0),
+      u32(FIXTURE_DURATION_SECONDS * 1000),
+      new Uint8Array(16),
+      IDENTITY_MATRIX,
+      u32(WIDTH << 16),
+      u32(HEIGHT << 16)
+    ),
+    box('udta', quicktimeText('©nam', 'ICEOUT-TITLE'))
+  );
+}
+
+/** QuickTime user data text atom (©xyz, ©mak…): length, language, string */
+function quicktimeText(type: string, value: string): Uint8Array {
+  const bytes = text(value);
+  return box(type, u16(bytes.length), u16(0x15c7), bytes);
+}
+
+/** iTunes/QuickTime metadata value: data box with type 1 (UTF-8) */
+function dataBox(value: string): Uint8Array {
+  return box('data', u32(1), u32(0), text(value));
+}
+
+const XMP_UUID = new Uint8Array([
+  0xbe, 0x7a, 0xcf, 0xcb, 0x97, 0xa9, 0x42, 0xe8, 0x9c, 0x71, 0x99, 0x94, 0x91, 0xe3, 0xaf, 0xac,
+]);
+
+/** MP4 as phones and cameras write it: udta with ©xyz/©mak/©mod and an iTunes meta/ilst inside */
+function buildMp4(): Uint8Array {
+  return concat([
+    box('ftyp', text('isom'), u32(512), text('isom'), text('mp42')),
+    box(
+      'moov',
+      mvhd(0, 1000),
+      trak(),
+      box(
+        'udta',
+        quicktimeText('©xyz', ISO6709_LOCATION),
+        quicktimeText('©mak', 'ICEOUT-MAKE'),
+        quicktimeText('©mod', 'ICEOUT-MODEL'),
+        fullBox(
+          'meta',
+          0,
+          0,
+          fullBox('hdlr', 0, 0, u32(0), text('mdir'), text('appl'), new Uint8Array(8), text('\0')),
+          box('ilst', box('©cmt', dataBox('ICEOUT-COMMENT')))
+        )
+      ),
+      box('uuid', XMP_UUID, XMP_PACKET)
+    ),
+    box('mdat', text(`${SAMPLE_DATA_MARKER}-H264`)),
+  ]);
+}
+
+/** MOV as iPhones write it: 64-bit mvhd, moov/meta with mdta keys (location, make), udta and XMP_ */
+function buildMov(): Uint8Array {
+  const keys = ['com.apple.quicktime.location.ISO6709', 'com.apple.quicktime.make'];
+  return concat([
+    box('ftyp', text('qt  '), u32(0x20050300), text('qt  ')),
+    box(
+      'moov',
+      mvhd(1, 600),
+      trak(),
+      // QuickTime meta is a plain box (no version/flags), unlike the ISO full box
+      box(
+        'meta',
+        fullBox('hdlr', 0, 0, u32(0), text('mdta'), new Uint8Array(12), text('\0')),
+        fullBox('keys', 0, 0, u32(keys.length), ...keys.map((key) => box('mdta', text(key)))),
+        box('ilst', box(u32(1), dataBox(ISO6709_LOCATION)), box(u32(2), dataBox('ICEOUT-MAKE')))
+      ),
+      box('udta', quicktimeText('©xyz', ISO6709_LOCATION), quicktimeText('©mak', 'ICEOUT-MAKE')),
+      box('XMP_', XMP_PACKET)
+    ),
+    box('mdat', text(`${SAMPLE_DATA_MARKER}-HEVC`)),
+  ]);
+}
+
+// --- WebM ---
+
+function ebmlId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+  return new Uint8Array(bytes);
+}
+
+function ebmlSize(size: number): Uint8Array {
+  if (size < 0x7f) return new Uint8Array([0x80 | size]);
+  if (size < 0x3fff) return new Uint8Array([0x40 | (size >> 8), size & 0xff]);
+  return concat([new Uint8Array([0x10]), u32(size).subarray(1)]);
+}
+
+/** Size field meaning "unknown": the element runs until its parent (or the next top-level element) */
+const EBML_UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+function ebml(id: number, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(payload);
+  return concat([ebmlId(id), ebmlSize(body.length), body]);
+}
+
+function ebmlUnknownSize(id: number, ...payload: Uint8Array[]): Uint8Array {
+  return concat([ebmlId(id), EBML_UNKNOWN_SIZE, ...payload]);
+}
+
+function ebmlUint(id: number, value: number, length = 4): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1, v = value; i >= 0; i--, v = Math.floor(v / 256)) bytes[i] = v % 256;
+  return ebml(id, bytes);
+}
+
+function ebmlString(id: number, value: string): Uint8Array {
+  return ebml(id, text(value));
+}
+
+function ebmlFloat(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return ebml(id, bytes);
+}
+
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TRACKS_ID = 0x1654ae6b;
+const CLUSTER_ID = 0x1f43b675;
+const TAGS_ID = 0x1254c367;
+
+const EBML_HEADER = ebml(
+  0x1a45dfa3,
+  ebmlUint(0x4286, 1, 1), // EBMLVersion
+  ebmlUint(0x42f7, 1, 1), // EBMLReadVersion
+  ebmlUint(0x42f2, 4, 1), // EBMLMaxIDLength
+  ebmlUint(0x42f3, 8, 1), // EBMLMaxSizeLength
+  ebmlString(0x4282, 'webm'), // DocType
+  ebmlUint(0x4287, 4, 1), // DocTypeVersion
+  ebmlUint(0x4285, 2, 1) // DocTypeReadVersion
+);
+
+function webmInfo(withDuration: boolean): Uint8Array {
+  return ebml(
+    INFO_ID,
+    ebmlUint(0x2ad7b1, 1_000_000, 3), // TimecodeScale: 1 ms
+    withDuration ? ebmlFloat(0x4489, FIXTURE_DURATION_SECONDS * 1000) : new Uint8Array(0),
+    ebmlString(0x7ba9, 'ICEOUT-TITLE'), // Title
+    ebml(0x4461, new Uint8Array(8).fill(0x11)), // DateUTC
+    ebmlString(0x4d80, 'generate.ts'), // MuxingApp
+    ebmlString(0x5741, 'generate.ts') // WritingApp
+  );
+}
+
+const WEBM_TRACKS = ebml(
+  TRACKS_ID,
+  ebml(
+    0xae, // TrackEntry
+    ebmlUint(0xd7, 1, 1), // TrackNumber
+    ebmlUint(0x73c5, 1, 1), // TrackUID
+    ebmlUint(0x83, 1, 1), // TrackType: video
+    ebmlString(0x86, 'V_VP8'), // CodecID
+    ebml(0xe0, ebmlUint(0xb0, WIDTH, 1), ebmlUint(0xba, HEIGHT, 1)) // Video: PixelWidth, PixelHeight
+  )
+);
+
+function webmBlock(): Uint8Array {
+  // SimpleBlock: track 1, relative timecode 0, keyframe
+  return ebml(0xa3, new Uint8Array([0x81, 0x00, 0x00, 0x80]), text(`${SAMPLE_DATA_MARKER}-VP8`));
+}
+
+function simpleTag(name: string, value: string): Uint8Array {
+  return ebml(0x67c8, ebmlString(0x45a3, name), ebmlString(0x4487, value));
+}
+
+const WEBM_TAGS = ebml(
+  TAGS_ID,
+  ebml(0x7373, ebml(0x63c0), simpleTag('LOCATION', ISO6709_LOCATION), simpleTag('COMMENT', 'ICEOUT-TAG'))
+);
+
+/** WebM as muxers write it: SeekHead (pointing at Info, Tracks and Tags), Info with Title, Tags at the end */
+function buildWebm(): Uint8Array {
+  const info = webmInfo(true);
+  const cluster = ebml(CLUSTER_ID, ebmlUint(0xe7, 0, 1), webmBlock());
+  const seekHead = (positions: number[]) =>
+    ebml(
+      0x114d9b74,
+      ...[INFO_ID, TRACKS_ID, TAGS_ID].map((id, i) =>
+        ebml(0x4dbb, ebml(0x53ab, ebmlId(id)), ebmlUint(0x53ac, positions[i]))
+      )
+    );
+
+  // SeekPosition is relative to the Segment payload and has a fixed width, so sizes are known up front
+  const infoPos = seekHead([0, 0, 0]).length;
+  const tracksPos = infoPos + info.length;
+  const tagsPos = tracksPos + WEBM_TRACKS.length + cluster.length;
+  return concat([
+    EBML_HEADER,
+    ebml(SEGMENT_ID, seekHead([infoPos, tracksPos, tagsPos]), info, WEBM_TRACKS, cluster, WEBM_TAGS),
+  ]);
+}
+
+/** Live recording (MediaRecorder-style): unknown-size Segment and Clusters, no Duration in Info */
+function buildRecordingWebm(): Uint8Array {
+  const cluster = (timecode: number) => ebmlUnknownSize(CLUSTER_ID, ebmlUint(0xe7, timecode, 2), webmBlock());
+  return concat([
+    EBML_HEADER,
+    ebmlUnknownSize(
+      SEGMENT_ID,
+      webmInfo(false),
+      WEBM_TRACKS,
+      cluster(0),
+      cluster(FIXTURE_DURATION_SECONDS * 1000),
+      WEBM_TAGS
+    ),
+  ]);
+}
+
+async function main() {
+  const files: Record<string, Uint8Array> = {
+    'photo.jpg': await buildJpeg(),
+    'photo.png': await buildPng(),
+    'photo.webp': await buildWebp(),
+    'photo.heic': buildHeic(),
+    'video.mp4': buildMp4(),
+    'video.mov': buildMov(),
+    'video.webm': buildWebm(),
+    'recording.webm': buildRecordingWebm(),
+  };
+  for (const [name, bytes] of Object.entries(files)) {
+    writeFileSync(join(FIXTURE_DIR, name), bytes);
+    console.log(`Wrote ${name} (${bytes.length} bytes)`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Shared values for the metadata-stripping fixtures in this directory.
+ * The files are built by generate.ts; every metadata block in them carries one of the markers below,
+ * so a test can check that none of it survives by searching the output bytes.
+ */
+
+/** Text planted in EXIF, XMP, IPTC, comments, text chunks and video tags */
+export const PRIVATE_MARKERS = [
+  'ICEOUT-MAKE',
+  'ICEOUT-MODEL',
+  'ICEOUT-XMP',
+  'ICEOUT-IPTC',
+  'ICEOUT-COMMENT',
+  'ICEOUT-TITLE',
+  'ICEOUT-TAG',
+  'ICEOUT-TRAILER',
+];
+
+/** ISO 6709 location string used by QuickTime ©xyz, mdta location keys and Matroska tags */
+export const ISO6709_LOCATION = '+40.7128-074.0060/';
+
+/** EXIF GPS rationals (40° 42' 51.36" N, 74° 0' 21.6" W) */
+export const GPS_LATITUDE: Array<[number, number]> = [[40, 1], [42, 1], [5136, 100]];
+export const GPS_LONGITUDE: Array<[number, number]> = [[74, 1], [0, 1], [2160, 100]];
+
+/** EXIF orientation written into every still image fixture (rotate 90° CW to display) */
+export const FIXTURE_ORIENTATION = 6;
+
+/** Playback length of every video fixture */
+export const FIXTURE_DURATION_SECONDS = 2.5;
+
+/** Stand-in for coded image/video samples; it must survive stripping untouched */
+export const SAMPLE_DATA_MARKER = 'FIXTURE-SAMPLE-DATA';
+
+export const FIXTURE_DIR = __dirname;
+
+export function readFixture(name: string): Uint8Array {
+  return new Uint8Array(readFileSync(join(FIXTURE_DIR, name)));
+}
+
+export function encodeRationals(values: Array<[number, number]>): Uint8Array {
+  const out = new Uint8Array(values.length * 8);
+  const view = new DataView(out.buffer);
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator);
+    view.setUint32(i * 8 + 4, denominator);
+  });
+  return out;
+}
+
+export function indexOfBytes(haystack: Uint8Array, needle: Uint8Array): number {
+  outer: for (let i = 0; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+export function includesText(haystack: Uint8Array, text: string): boolean {
+  return indexOfBytes(haystack, new TextEncoder().encode(text)) !== -1;
+}
+
+/** Markers (and raw GPS values) still present in the bytes; empty when everything was stripped */
+export function findPrivateData(bytes: Uint8Array): string[] {
+  const found = [...PRIVATE_MARKERS, ISO6709_LOCATION].filter((marker) => includesText(bytes, marker));
+  if (indexOfBytes(bytes, encodeRationals(GPS_LATITUDE)) !== -1) found.push('GPSLatitude');
+  if (indexOfBytes(bytes, encodeRationals(GPS_LONGITUDE)) !== -1) found.push('GPSLongitude');
+  return found;
+}
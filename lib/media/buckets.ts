@@ -0,0 +1,30 @@
+/**
+ * Storage buckets and paths shared by the report page (uploads to quarantine) and /api/media
+ * (lib/media/ingest, which publishes to the public bucket)
+ */
+
+export const QUARANTINE_BUCKET = 'sightings-quarantine';
+export const QUARANTINE_PREFIX = 'quarantine/';
+export const MEDIA_BUCKET = 'sightings-media';
+
+/** File extension per accepted MIME type (the quarantine bucket policy checks extensions) */
+export const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/avif': 'avif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
+export function isQuarantinePath(path: unknown): path is string {
+  return (
+    typeof path === 'string' &&
+    path.startsWith(QUARANTINE_PREFIX) &&
+    /^[A-Za-z0-9._-]+$/.test(path.slice(QUARANTINE_PREFIX.length)) &&
+    !path.includes('..')
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Byte helpers shared by the image and video metadata strippers
+ */
+
+export function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export function readU16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+export function readU32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+export function readU32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) >>> 0) + (bytes[offset + 2] << 16) + (bytes[offset + 1] << 8) + bytes[offset];
+}
+
+export function writeU32BE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+export function writeU32LE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+}
+
+export function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** ISO base media file format box (HEIF, MP4, MOV); end is exclusive */
+export type IsoBox = { type: string; start: number; dataStart: number; end: number };
+
+export function readIsoBoxes(bytes: Uint8Array, start: number, end: number): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    let size = readU32BE(bytes, pos);
+    const type = ascii(bytes, pos + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      if (pos + 16 > end) throw new Error('Malformed ISO-BMFF file: truncated box');
+      size = readU32BE(bytes, pos + 8) * 2 ** 32 + readU32BE(bytes, pos + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < header || pos + size > end) throw new Error('Malformed ISO-BMFF file: truncated box');
+    boxes.push({ type, start: pos, dataStart: pos + header, end: pos + size });
+    pos += size;
+  }
+  return boxes;
+}
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { ascii, readIsoBoxes, readU32BE, readU32LE } from '@/lib/media/bytes';
+import { detectImageContainer, stripImageMetadata } from '@/lib/media/imageMetadata';
+import {
+  FIXTURE_ORIENTATION,
+  SAMPLE_DATA_MARKER,
+  findPrivateData,
+  includesText,
+  indexOfBytes,
+  readFixture,
+} from '@/lib/media/__fixtures__';
+
+function strip(bytes: Uint8Array): Uint8Array {
+  const out = stripImageMetadata(bytes);
+  assert.ok(out, 'expected a supported container');
+  return out;
+}
+
+/** Tags in IFD0 of an EXIF block (with or without the "Exif\0\0" prefix) */
+function readIfd0Tags(exif: Uint8Array): number[] {
+  const start = ascii(exif, 0, 6) === 'Exif\0\0' ? 6 : 0;
+  const view = new DataView(exif.buffer, exif.byteOffset + start, exif.length - start);
+  const le = view.getUint8(0) === 0x49;
+  const ifd = view.getUint32(4, le);
+  return Array.from({ length: view.getUint16(ifd, le) }, (_, i) => view.getUint16(ifd + 2 + i * 12, le));
+}
+
+function pngChunkTypes(bytes: Uint8Array): string[] {
+  const types: string[] = [];
+  for (let pos = 8; pos + 12 <= bytes.length; pos += 12 + readU32BE(bytes, pos)) {
+    types.push(ascii(bytes, pos + 4, 4));
+  }
+  return types;
+}
+
+function webpChunkTypes(bytes: Uint8Array): string[] {
+  const types: string[] = [];
+  for (let pos = 12; pos + 8 <= bytes.length; ) {
+    const size = readU32LE(bytes, pos + 4);
+    types.push(ascii(bytes, pos, 4));
+    pos += 8 + size + (size & 1);
+  }
+  return types;
+}
+
+describe('stripImageMetadata', () => {
+  for (const [name, container] of [
+    ['photo.jpg', 'jpeg'],
+    ['photo.png', 'png'],
+    ['photo.webp', 'webp'],
+  ] as const) {
+    describe(name, () => {
+      const input = readFixture(name);
+      const output = strip(input);
+
+      it('starts out with GPS, EXIF and XMP data', async () => {
+        assert.equal(detectImageContainer(input), container);
+        assert.ok(findPrivateData(input).includes('GPSLatitude'));
+        const metadata = await sharp(input).metadata();
+        assert.ok(metadata.exif && metadata.xmp);
+      });
+
+      it('removes every EXIF, XMP and IPTC field', async () => {
+        assert.deepEqual(findPrivateData(output), []);
+        const metadata = await sharp(output).metadata();
+        assert.equal(metadata.xmp, undefined);
+        assert.equal(metadata.iptc, undefined);
+        assert.ok(metadata.exif);
+        assert.deepEqual(readIfd0Tags(metadata.exif), [0x0112]);
+      });
+
+      it('keeps the orientation and a decodable image', async () => {
+        const metadata = await sharp(output).metadata();
+        assert.equal(metadata.orientation, FIXTURE_ORIENTATION);
+        assert.equal(metadata.width, 16);
+        assert.equal(metadata.height, 8);
+        const pixels = await sharp(output).raw().toBuffer();
+        assert.deepEqual(pixels, await sharp(input).raw().toBuffer());
+      });
+
+      it('is idempotent', () => {
+        assert.deepEqual(strip(output), output);
+      });
+    });
+  }
+
+  it('drops IPTC and comments from JPEG but keeps the ICC profile', async () => {
+    const input = readFixture('photo.jpg');
+    assert.ok((await sharp(input).metadata()).iptc);
+    const metadata = await sharp(strip(input)).metadata();
+    assert.equal(metadata.iptc, undefined);
+    assert.equal(metadata.comments, undefined);
+    assert.ok(metadata.icc);
+  });
+
+  it('drops text and time chunks from PNG and rewrites eXIf before the image data', () => {
+    const types = pngChunkTypes(strip(readFixture('photo.png')));
+    assert.deepEqual(types.filter((type) => ['tEXt', 'zTXt', 'iTXt', 'tIME'].includes(type)), []);
+    assert.equal(types.filter((type) => type === 'eXIf').length, 1);
+    assert.ok(types.indexOf('eXIf') < types.indexOf('IDAT'));
+    assert.equal(types.at(-1), 'IEND');
+  });
+
+  it('clears the XMP flag and rewrites the RIFF size in WebP', () => {
+    const output = strip(readFixture('photo.webp'));
+    assert.deepEqual(webpChunkTypes(output), ['VP8X', 'VP8 ', 'EXIF']);
+    assert.equal(output[20] & 0x0c, 0x08);
+    assert.equal(readU32LE(output, 4), output.length - 8);
+  });
+
+  describe('photo.heic', () => {
+    const input = readFixture('photo.heic');
+    const output = strip(input);
+
+    it('starts out with GPS, EXIF and XMP data', () => {
+      assert.equal(detectImageContainer(input), 'heif');
+      assert.ok(findPrivateData(input).includes('GPSLatitude'));
+      assert.ok(findPrivateData(input).includes('ICEOUT-XMP'));
+    });
+
+    it('blanks the Exif and XMP items', () => {
+      assert.deepEqual(findPrivateData(output), []);
+      assert.equal(output.length, input.length);
+    });
+
+    it('keeps the item layout, irot orientation and image data', () => {
+      const meta = readIsoBoxes(output, 0, output.length).find((box) => box.type === 'meta');
+      assert.ok(meta);
+      const idat = readIsoBoxes(output, meta.dataStart + 4, meta.end).find((box) => box.type === 'idat');
+      assert.ok(idat);
+      // Everything up to the idat payload (ftyp, hdlr, iinf, iloc, iprp) is unchanged
+      assert.deepEqual(output.subarray(0, idat.dataStart), input.subarray(0, idat.dataStart));
+      const irot = indexOfBytes(output, new TextEncoder().encode('irot'));
+      assert.equal(output[irot + 4], 1);
+      assert.ok(includesText(output, SAMPLE_DATA_MARKER));
+    });
+  });
+
+  it('returns null for unsupported formats', () => {
+    assert.equal(stripImageMetadata(new TextEncoder().encode('GIF89a')), null);
+  });
+});
@@ -0,0 +1,450 @@
+import {
+  ascii,
+  concat,
+  readIsoBoxes,
+  readU16BE,
+  readU32BE,
+  readU32LE,
+  writeU32BE,
+  writeU32LE,
+  type IsoBox,
+} from '@/lib/media/bytes';
+
+/**
+ * Lossless, byte-level metadata removal for still images (JPEG, PNG, WebP, HEIF/HEIC/AVIF).
+ * Works on raw bytes with no canvas or re-encoding, so it runs in the browser and on the server.
+ *
+ * Removed: EXIF (GPS, camera model, serial numbers, embedded thumbnails), XMP, IPTC/Photoshop blocks,
+ * comments, text chunks and anything appended after the image data.
+ * Kept: everything needed to decode and display the image (ICC profile, Adobe color transform) and
+ * the EXIF orientation, rewritten as a one-tag EXIF block so photos still display upright.
+ */
+
+export type ImageContainer = 'jpeg' | 'png' | 'webp' | 'heif';
+
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis']);
+
+/**
+ * Detect the container from magic bytes (the browser-supplied MIME type is not trusted)
+ */
+export function detectImageContainer(bytes: Uint8Array): ImageContainer | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes.length >= 8 && ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp' && HEIF_BRANDS.has(ascii(bytes, 8, 4))) return 'heif';
+  return null;
+}
+
+/**
+ * Strip all metadata from an image.
+ * Returns null when the format is not one of the supported containers; throws on malformed files.
+ */
+export function stripImageMetadata(bytes: Uint8Array): Uint8Array<ArrayBuffer> | null {
+  switch (detectImageContainer(bytes)) {
+    case 'jpeg':
+      return stripJpeg(bytes);
+    case 'png':
+      return stripPng(bytes);
+    case 'webp':
+      return stripWebp(bytes);
+    case 'heif':
+      return stripHeif(bytes);
+    default:
+      return null;
+  }
+}
+
+/** "Exif\0\0", the prefix of EXIF payloads in JPEG APP1 (and sometimes WebP) */
+const EXIF_PREFIX = 'Exif\0\0';
+
+const ORIENTATION_TAG = 0x0112;
+
+/**
+ * Read the Orientation tag (1–8) from IFD0 of a TIFF structure; null when absent or invalid
+ */
+function readTiffOrientation(bytes: Uint8Array, start: number): number | null {
+  if (start < 0 || start + 8 > bytes.length) return null;
+  const order = ascii(bytes, start, 2);
+  if (order !== 'II' && order !== 'MM') return null;
+  const le = order === 'II';
+  const u16 = (o: number) => (le ? bytes[o] | (bytes[o + 1] << 8) : readU16BE(bytes, o));
+  const u32 = (o: number) => (le ? readU32LE(bytes, o) : readU32BE(bytes, o));
+
+  if (u16(start + 2) !== 42) return null;
+  const ifd = start + u32(start + 4);
+  if (ifd + 2 > bytes.length) return null;
+
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > bytes.length) break;
+    if (u16(entry) === ORIENTATION_TAG) {
+      const value = u16(entry + 8);
+      return value >= 1 && value <= 8 ? value : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Minimal big-endian TIFF with a single IFD0 entry: Orientation
+ */
+function buildOrientationTiff(orientation: number): Uint8Array {
+  const tiff = new Uint8Array(26);
+  tiff.set([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08]); // "MM", 42, IFD0 at 8
+  tiff.set([0x00, 0x01], 8); // one entry
+  tiff.set([0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01], 10); // Orientation, SHORT, count 1
+  tiff.set([0x00, orientation, 0x00, 0x00], 18);
+  // next IFD offset (bytes 22–25) stays 0
+  return tiff;
+}
+
+/** Orientation 1 is the default, so it needs no EXIF block at all */
+function needsOrientation(orientation: number | null): orientation is number {
+  return orientation !== null && orientation !== 1;
+}
+
+// --- JPEG ---
+
+const JPEG_SOS = 0xda;
+const JPEG_EOI = 0xd9;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP1 = 0xe1;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP14 = 0xee;
+const JPEG_COM = 0xfe;
+
+function isRestartMarker(marker: number): boolean {
+  return marker >= 0xd0 && marker <= 0xd7;
+}
+
+/**
+ * Keep, rewrite or drop a marker segment (segment includes the 0xFF marker and length bytes)
+ */
+function filterJpegSegment(marker: number, segment: Uint8Array): Uint8Array | null {
+  const id = (length: number) => ascii(segment, 4, length);
+
+  if (marker === JPEG_APP0) {
+    if (id(5) !== 'JFIF\0' || segment.length < 18) return null; // JFXX thumbnails and others
+    if (segment[16] === 0 && segment[17] === 0) return segment;
+    // Drop the embedded JFIF thumbnail: keep the fixed 14-byte header with 0x0 thumbnail size
+    const rewritten = segment.slice(0, 18);
+    rewritten[2] = 0x00;
+    rewritten[3] = 0x10;
+    rewritten[16] = 0;
+    rewritten[17] = 0;
+    return rewritten;
+  }
+  // ICC color profile is needed to render colors correctly
+  if (marker === JPEG_APP2) return id(12) === 'ICC_PROFILE\0' ? segment : null;
+  // Adobe segment carries the color transform flag
+  if (marker === JPEG_APP14) return id(5) === 'Adobe' ? segment : null;
+  // APP1 (EXIF/XMP), APP3–APP13 (APP13 = Photoshop/IPTC), APP15, comments
+  if ((marker >= JPEG_APP0 && marker <= 0xef) || marker === JPEG_COM) return null;
+  return segment;
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const kept: Array<{ marker: number; data: Uint8Array }> = [];
+  let orientation: number | null = null;
+  let pos = 2;
+
+  while (pos < bytes.length) {
+    if (bytes[pos] !== 0xff) throw new Error('Malformed JPEG: expected a marker');
+    const marker = bytes[pos + 1];
+
+    if (marker === 0xff) {
+      pos += 1; // fill byte
+      continue;
+    }
+    if (marker === JPEG_EOI) {
+      // Anything after EOI (MPF secondary images, vendor trailers) is dropped
+      kept.push({ marker, data: bytes.subarray(pos, pos + 2) });
+      break;
+    }
+    if (marker === 0x01 || isRestartMarker(marker)) {
+      kept.push({ marker, data: bytes.subarray(pos, pos + 2) });
+      pos += 2;
+      continue;
+    }
+
+    if (pos + 4 > bytes.length) throw new Error('Malformed JPEG: truncated segment');
+    const end = pos + 2 + readU16BE(bytes, pos + 2);
+    if (end > bytes.length || end < pos + 4) throw new Error('Malformed JPEG: truncated segment');
+    const segment = bytes.subarray(pos, end);
+
+    if (marker === JPEG_APP1 && orientation === null && ascii(segment, 4, 6) === EXIF_PREFIX) {
+      orientation = readTiffOrientation(segment, 10);
+    }
+    const filtered = filterJpegSegment(marker, segment);
+    if (filtered) kept.push({ marker, data: filtered });
+    pos = end;
+
+    if (marker === JPEG_SOS) {
+      // Entropy-coded data runs until the next marker that is not stuffing, a fill byte or a restart
+      let scan = pos;
+      while (scan + 1 < bytes.length) {
+        const next = bytes[scan + 1];
+        if (bytes[scan] === 0xff && next !== 0x00 && next !== 0xff && !isRestartMarker(next)) break;
+        scan += 1;
+      }
+      if (scan + 1 >= bytes.length) scan = bytes.length;
+      kept.push({ marker: -1, data: bytes.subarray(pos, scan) });
+      pos = scan;
+    }
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let insertAt = 0;
+  while (insertAt < kept.length && kept[insertAt].marker === JPEG_APP0) insertAt += 1;
+  kept.forEach((segment, index) => {
+    if (index === insertAt && needsOrientation(orientation)) parts.push(buildJpegExifSegment(orientation));
+    parts.push(segment.data);
+  });
+  return concat(parts);
+}
+
+function buildJpegExifSegment(orientation: number): Uint8Array {
+  const tiff = buildOrientationTiff(orientation);
+  const segment = new Uint8Array(4 + EXIF_PREFIX.length + tiff.length);
+  segment.set([0xff, JPEG_APP1, 0x00, segment.length - 2]);
+  segment.set(Array.from(EXIF_PREFIX, (c) => c.charCodeAt(0)), 4);
+  segment.set(tiff, 4 + EXIF_PREFIX.length);
+  return segment;
+}
+
+// --- PNG ---
+
+/** Ancillary chunks that carry metadata rather than pixels or color information */
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  writeU32BE(chunk, 0, data.length);
+  chunk.set(Array.from(type, (c) => c.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  writeU32BE(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function stripPng(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const kept: Array<{ type: string; data: Uint8Array }> = [];
+  let orientation: number | null = null;
+  let pos = 8;
+
+  while (pos < bytes.length) {
+    if (pos + 12 > bytes.length) throw new Error('Malformed PNG: truncated chunk');
+    const length = readU32BE(bytes, pos);
+    const type = ascii(bytes, pos + 4, 4);
+    const end = pos + 12 + length;
+    if (end > bytes.length) throw new Error('Malformed PNG: truncated chunk');
+
+    if (type === 'eXIf' && orientation === null) orientation = readTiffOrientation(bytes, pos + 8);
+    if (!PNG_METADATA_CHUNKS.has(type)) kept.push({ type, data: bytes.subarray(pos, end) });
+    pos = end;
+    // Anything after IEND is dropped
+    if (type === 'IEND') break;
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let orientationWritten = !needsOrientation(orientation);
+  for (const chunk of kept) {
+    // eXIf must precede the image data
+    if (!orientationWritten && (chunk.type === 'IDAT' || chunk.type === 'IEND')) {
+      parts.push(buildPngChunk('eXIf', buildOrientationTiff(orientation as number)));
+      orientationWritten = true;
+    }
+    parts.push(chunk.data);
+  }
+  return concat(parts);
+}
+
+// --- WebP ---
+
+const WEBP_FLAG_EXIF = 0x08;
+const WEBP_FLAG_XMP = 0x04;
+
+function buildWebpChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  const padded = data.length + (data.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  chunk.set(Array.from(fourcc, (c) => c.charCodeAt(0)));
+  writeU32LE(chunk, 4, data.length);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function stripWebp(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const kept: Array<{ fourcc: string; data: Uint8Array }> = [];
+  let orientation: number | null = null;
+  let pos = 12;
+
+  while (pos + 8 <= bytes.length) {
+    const fourcc = ascii(bytes, pos, 4);
+    const size = readU32LE(bytes, pos + 4);
+    const end = pos + 8 + size + (size & 1);
+    if (pos + 8 + size > bytes.length) throw new Error('Malformed WebP: truncated chunk');
+
+    if (fourcc === 'EXIF') {
+      const payload = pos + 8;
+      const tiffStart = ascii(bytes, payload, 6) === EXIF_PREFIX ? payload + 6 : payload;
+      orientation ??= readTiffOrientation(bytes.subarray(0, pos + 8 + size), tiffStart);
+    } else if (fourcc !== 'XMP ') {
+      kept.push({ fourcc, data: bytes.subarray(pos, Math.min(end, bytes.length)) });
+    }
+    pos = end;
+  }
+
+  // EXIF is only allowed in the extended (VP8X) format, so orientation implies a VP8X chunk
+  const keepOrientation = needsOrientation(orientation) && kept.some((c) => c.fourcc === 'VP8X');
+  const parts: Uint8Array[] = [bytes.subarray(0, 12)];
+  for (const chunk of kept) {
+    if (chunk.fourcc === 'VP8X') {
+      const vp8x = chunk.data.slice();
+      vp8x[8] = (vp8x[8] & ~(WEBP_FLAG_EXIF | WEBP_FLAG_XMP)) | (keepOrientation ? WEBP_FLAG_EXIF : 0);
+      parts.push(vp8x);
+    } else {
+      parts.push(chunk.data);
+    }
+  }
+  if (keepOrientation) parts.push(buildWebpChunk('EXIF', buildOrientationTiff(orientation as number)));
+
+  const out = concat(parts);
+  writeU32LE(out, 4, out.length - 8);
+  return out;
+}
+
+// --- HEIF / HEIC / AVIF ---
+// Orientation lives in the irot/imir item properties, not in EXIF, so it is untouched.
+// Metadata items (Exif, XMP) are zero-filled in place: box sizes and item offsets stay valid
+// and the image data is not rewritten.
+
+function readCString(bytes: Uint8Array, start: number, end: number): { value: string; next: number } {
+  let pos = start;
+  while (pos < end && bytes[pos] !== 0) pos += 1;
+  return { value: ascii(bytes, start, pos - start), next: pos + 1 };
+}
+
+/** Item ids of Exif and XMP items listed in iinf */
+function findHeifMetadataItems(bytes: Uint8Array, iinf: IsoBox): Set<number> {
+  const ids = new Set<number>();
+  const version = bytes[iinf.dataStart];
+  const entriesStart = iinf.dataStart + 4 + (version === 0 ? 2 : 4);
+
+  for (const infe of readIsoBoxes(bytes, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const infeVersion = bytes[infe.dataStart];
+    if (infeVersion < 2) continue;
+    let pos = infe.dataStart + 4;
+    const itemId = infeVersion === 2 ? readU16BE(bytes, pos) : readU32BE(bytes, pos);
+    pos += (infeVersion === 2 ? 2 : 4) + 2; // item_ID, item_protection_index
+    const itemType = ascii(bytes, pos, 4);
+    pos += 4;
+
+    if (itemType === 'Exif') {
+      ids.add(itemId);
+    } else if (itemType === 'mime') {
+      const name = readCString(bytes, pos, infe.end);
+      const contentType = readCString(bytes, name.next, infe.end).value.toLowerCase();
+      if (contentType.includes('xmp') || contentType.includes('rdf+xml')) ids.add(itemId);
+    }
+  }
+  return ids;
+}
+
+/** Absolute byte ranges of the given items, resolved through iloc (file offsets or idat) */
+function findHeifItemRanges(
+  bytes: Uint8Array,
+  iloc: IsoBox,
+  idat: IsoBox | undefined,
+  itemIds: Set<number>
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const version = bytes[iloc.dataStart];
+  let pos = iloc.dataStart + 4;
+
+  const readN = (size: number): number => {
+    let value = 0;
+    if (size === 4) value = readU32BE(bytes, pos);
+    else if (size === 8) value = readU32BE(bytes, pos) * 2 ** 32 + readU32BE(bytes, pos + 4);
+    else if (size !== 0) throw new Error('Malformed HEIF: unsupported iloc field size');
+    pos += size;
+    return value;
+  };
+
+  const offsetSize = bytes[pos] >> 4;
+  const lengthSize = bytes[pos] & 0x0f;
+  const baseOffsetSize = bytes[pos + 1] >> 4;
+  const indexSize = version > 0 ? bytes[pos + 1] & 0x0f : 0;
+  pos += 2;
+  const itemCount = version < 2 ? readU16BE(bytes, pos) : readU32BE(bytes, pos);
+  pos += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const itemId = version < 2 ? readU16BE(bytes, pos) : readU32BE(bytes, pos);
+    pos += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version > 0) {
+      constructionMethod = readU16BE(bytes, pos) & 0x0f;
+      pos += 2;
+    }
+    pos += 2; // data_reference_index
+    const baseOffset = readN(baseOffsetSize);
+    const extentCount = readU16BE(bytes, pos);
+    pos += 2;
+
+    for (let e = 0; e < extentCount; e++) {
+      if (indexSize > 0) readN(indexSize);
+      const extentOffset = readN(offsetSize);
+      const extentLength = readN(lengthSize);
+      if (!itemIds.has(itemId)) continue;
+
+      // 0 = offsets into the file, 1 = offsets into idat; 2 (item references) carries no bytes of its own
+      if (constructionMethod === 0) {
+        const start = baseOffset + extentOffset;
+        ranges.push([start, extentLength === 0 ? bytes.length : start + extentLength]);
+      } else if (constructionMethod === 1 && idat) {
+        const start = idat.dataStart + baseOffset + extentOffset;
+        ranges.push([start, extentLength === 0 ? idat.end : start + extentLength]);
+      }
+    }
+  }
+  return ranges;
+}
+
+function stripHeif(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const meta = readIsoBoxes(bytes, 0, bytes.length).find((box) => box.type === 'meta');
+  if (!meta) return bytes.slice();
+
+  // meta is a full box: 4 bytes of version/flags before its children
+  const children = readIsoBoxes(bytes, meta.dataStart + 4, meta.end);
+  const iinf = children.find((box) => box.type === 'iinf');
+  const iloc = children.find((box) => box.type === 'iloc');
+  const idat = children.find((box) => box.type === 'idat');
+  if (!iinf || !iloc) return bytes.slice();
+
+  const itemIds = findHeifMetadataItems(bytes, iinf);
+  const out = bytes.slice();
+  if (itemIds.size === 0) return out;
+
+  for (const [start, end] of findHeifItemRanges(bytes, iloc, idat, itemIds)) {
+    if (start < 0 || end > bytes.length || start >= end) throw new Error('Malformed HEIF: item outside file');
+    out.fill(0, start, end);
+  }
+  return out;
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { createThumbnail, inspectMedia } from '@/lib/media/ingest';
+import { thumbnailPathFor } from '@/lib/sightings/validate';
+import { findPrivateData, readFixture } from '@/lib/media/__fixtures__';
+
+function inspect(name: string, declaredType: string) {
+  const result = inspectMedia(readFixture(name), declaredType);
+  assert.ok(result.ok, 'expected the fixture to pass inspection');
+  return result.value;
+}
+
+describe('inspectMedia', () => {
+  it('returns stripped bytes with the declared type', () => {
+    const media = inspect('photo.jpg', 'image/jpeg');
+    assert.equal(media.type, 'image/jpeg');
+    assert.equal(media.extension, 'jpg');
+    assert.deepEqual(findPrivateData(media.bytes), []);
+  });
+
+  it('takes the detected type when none is declared', () => {
+    assert.equal(inspect('video.webm', '').type, 'video/webm');
+  });
+
+  it('rejects contents that do not match the declared type', () => {
+    const result = inspectMedia(readFixture('photo.png'), 'image/jpeg');
+    assert.deepEqual(result, { ok: false, status: 415, error: 'File contents do not match its type.' });
+  });
+});
+
+describe('createThumbnail', () => {
+  for (const [name, type] of [
+    ['photo.jpg', 'image/jpeg'],
+    ['photo.png', 'image/png'],
+    ['photo.webp', 'image/webp'],
+  ] as const) {
+    it(`renders an upright JPEG without metadata from ${name}`, async () => {
+      const thumbnail = await createThumbnail(inspect(name, type));
+      assert.ok(thumbnail);
+      const metadata = await sharp(thumbnail).metadata();
+      assert.equal(metadata.format, 'jpeg');
+      // The 16x8 fixtures carry orientation 6, so the thumbnail is rotated to 8x16
+      assert.equal(metadata.width, 8);
+      assert.equal(metadata.height, 16);
+      assert.equal(metadata.exif, undefined);
+      assert.equal(metadata.xmp, undefined);
+    });
+  }
+
+  it('skips videos', async () => {
+    assert.equal(await createThumbnail(inspect('video.mp4', 'video/mp4')), null);
+  });
+});
+
+describe('thumbnailPathFor', () => {
+  it('replaces the extension with -thumb.jpg', () => {
+    assert.equal(thumbnailPathFor('sightings/abc.webp'), 'sightings/abc-thumb.jpg');
+    assert.equal(thumbnailPathFor('sightings/abc'), 'sightings/abc-thumb.jpg');
+  });
+});
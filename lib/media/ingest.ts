@@ -0,0 +1,150 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import sharp from 'sharp';
+import { MEDIA_BUCKET, MEDIA_EXTENSIONS, QUARANTINE_BUCKET } from '@/lib/media/buckets';
+import { detectImageContainer, stripImageMetadata } from '@/lib/media/imageMetadata';
+import { detectVideoContainer, readVideoDurationSeconds, stripVideoMetadata } from '@/lib/media/videoMetadata';
+import { MEDIA_PATH_PREFIX, thumbnailPathFor, type SightingMediaItem } from '@/lib/sightings/validate';
+
+/**
+ * Server-side media ingestion.
+ * Browsers can only upload to the private quarantine bucket; /api/media re-checks each file here
+ * (magic bytes vs declared type, size and duration limits, metadata stripping) before copying it
+ * to the public bucket, along with a thumbnail rendered here from the stripped bytes.
+ * Quarantined originals are removed whether the file passes or not.
+ * Uses sharp, so only import this from route handlers; browsers use lib/media/buckets.
+ */
+
+export const IMAGE_MAX_BYTES = 15 * 1024 * 1024;
+export const VIDEO_MAX_BYTES = 50 * 1024 * 1024;
+export const VIDEO_MAX_SECONDS = 60;
+export const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 80;
+/** Refuse to decode more than this for a thumbnail (a 15 MB file can declare far larger dimensions) */
+const THUMBNAIL_MAX_INPUT_PIXELS = 100_000_000;
+
+/** Accepted MIME types, keyed by the container detected from magic bytes */
+const CONTAINER_MIME_TYPES: Record<string, string[]> = {
+  jpeg: ['image/jpeg'],
+  png: ['image/png'],
+  webp: ['image/webp'],
+  heif: ['image/heic', 'image/heif', 'image/avif'],
+  mp4: ['video/mp4', 'video/quicktime'],
+  matroska: ['video/webm'],
+};
+
+export type InspectedMedia = { bytes: Uint8Array<ArrayBuffer>; type: string; extension: string };
+
+export type MediaCheckResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+/**
+ * Verify an uploaded file and return its metadata-free bytes.
+ * An empty declared type (some browsers send none for HEIC) takes the detected container's type.
+ */
+export function inspectMedia(bytes: Uint8Array, declaredType: string): MediaCheckResult<InspectedMedia> {
+  const image = detectImageContainer(bytes);
+  const video = image ? null : detectVideoContainer(bytes);
+  const container = image ?? video;
+  if (!container) {
+    return { ok: false, status: 415, error: 'Unsupported file type. Upload a photo or an MP4, MOV or WebM video.' };
+  }
+
+  const allowed = CONTAINER_MIME_TYPES[container];
+  const type = declaredType || allowed[0];
+  if (!allowed.includes(type)) {
+    return { ok: false, status: 415, error: 'File contents do not match its type.' };
+  }
+
+  const maxBytes = video ? VIDEO_MAX_BYTES : IMAGE_MAX_BYTES;
+  if (bytes.length > maxBytes) {
+    return {
+      ok: false,
+      status: 413,
+      error: `${video ? 'Videos' : 'Photos'} must be ${maxBytes / (1024 * 1024)} MB or smaller.`,
+    };
+  }
+
+  if (video) {
+    const seconds = readVideoDurationSeconds(bytes);
+    if (seconds === null) {
+      return { ok: false, status: 422, error: 'Could not read the video length.' };
+    }
+    if (seconds > VIDEO_MAX_SECONDS) {
+      return { ok: false, status: 413, error: `Videos must be ${VIDEO_MAX_SECONDS} seconds or shorter.` };
+    }
+  }
+
+  const stripped = video ? stripVideoMetadata(bytes) : stripImageMetadata(bytes);
+  if (!stripped) {
+    return { ok: false, status: 415, error: 'Unsupported file type.' };
+  }
+  return { ok: true, value: { bytes: stripped, type, extension: MEDIA_EXTENSIONS[type] } };
+}
+
+/**
+ * Render a JPEG thumbnail (at most THUMBNAIL_MAX_DIMENSION px, EXIF orientation applied, no metadata).
+ * Returns null for videos and for images sharp cannot decode (e.g. HEVC-coded HEIC); thumbnails are optional.
+ */
+export async function createThumbnail(media: InspectedMedia): Promise<Uint8Array | null> {
+  if (!media.type.startsWith('image/')) return null;
+  try {
+    const thumbnail = await sharp(media.bytes, { limitInputPixels: THUMBNAIL_MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(THUMBNAIL_MAX_DIMENSION, THUMBNAIL_MAX_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: THUMBNAIL_QUALITY })
+      .toBuffer();
+    return new Uint8Array(thumbnail);
+  } catch {
+    return null;
+  }
+}
+
+async function downloadQuarantined(service: SupabaseClient, path: string): Promise<Uint8Array | null> {
+  const { data, error } = await service.storage.from(QUARANTINE_BUCKET).download(path);
+  if (error || !data) return null;
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Check a quarantined upload, publish it (and its thumbnail, when one can be rendered) under
+ * MEDIA_PATH_PREFIX and return the media entry for the sighting row
+ */
+export async function ingestMedia(
+  service: SupabaseClient,
+  upload: { path: string; declaredType: string }
+): Promise<MediaCheckResult<SightingMediaItem>> {
+  try {
+    const original = await downloadQuarantined(service, upload.path);
+    if (!original) {
+      return { ok: false, status: 404, error: 'Upload not found.' };
+    }
+    const media = inspectMedia(original, upload.declaredType);
+    if (!media.ok) return media;
+
+    const thumbnail = await createThumbnail(media.value);
+
+    const id = crypto.randomUUID();
+    const path = `${MEDIA_PATH_PREFIX}${id}.${media.value.extension}`;
+    const { error: uploadError } = await service.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, media.value.bytes, { contentType: media.value.type, upsert: false });
+    if (uploadError) {
+      return { ok: false, status: 500, error: uploadError.message };
+    }
+
+    let thumbPath: string | undefined;
+    if (thumbnail) {
+      thumbPath = thumbnailPathFor(path);
+      const { error: thumbError } = await service.storage
+        .from(MEDIA_BUCKET)
+        .upload(thumbPath, thumbnail, { contentType: 'image/jpeg', upsert: false });
+      if (thumbError) {
+        await service.storage.from(MEDIA_BUCKET).remove([path]);
+        return { ok: false, status: 500, error: thumbError.message };
+      }
+    }
+
+    return { ok: true, value: { path, type: media.value.type, ...(thumbPath ? { thumbPath } : {}) } };
+  } finally {
+    await service.storage.from(QUARANTINE_BUCKET).remove([upload.path]);
+  }
+}
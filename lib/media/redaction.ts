@@ -0,0 +1,100 @@
+/**
+ * Redaction regions for photos (faces, license plates) and local suggestions for them.
+ * Regions are normalized to 0–1 of the displayed (orientation-corrected) image so they survive
+ * scaling; scrubImageExif pixelates them in its canvas pipeline before upload.
+ *
+ * Suggestions use the browser's Shape Detection API (FaceDetector, TextDetector), which runs on-device.
+ * No shipping browser enables it by default (Chromium keeps it behind the Experimental Web Platform
+ * features flag), so for almost every reporter the suggest button does not render and regions are drawn
+ * by hand. A bundled CPU detector (face model loaded lazily) would be needed for real coverage; it is
+ * not included.
+ */
+
+export type RedactionSource = 'manual' | 'face' | 'plate';
+
+export type RedactionRegion = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  source: RedactionSource;
+};
+
+type DetectedShape = { boundingBox: DOMRectReadOnly; rawValue?: string };
+type ShapeDetector = { detect(image: ImageBitmapSource): Promise<DetectedShape[]> };
+type ShapeDetectorConstructor = new (options?: Record<string, unknown>) => ShapeDetector;
+
+/** Extra margin around detections, as a fraction of the detected box */
+const DETECTION_PADDING = 0.2;
+
+/** Plates are wide, short text runs of 4–10 letters/digits */
+const PLATE_TEXT = /^[A-Z0-9][A-Z0-9 ·-]{2,10}[A-Z0-9]$/i;
+const PLATE_MIN_ASPECT = 1.5;
+const PLATE_MAX_ASPECT = 7;
+
+function getDetector(name: 'FaceDetector' | 'TextDetector', options?: Record<string, unknown>): ShapeDetector | null {
+  if (typeof window === 'undefined') return null;
+  const Detector = (window as unknown as Record<string, ShapeDetectorConstructor | undefined>)[name];
+  if (!Detector) return null;
+  try {
+    return new Detector(options);
+  } catch {
+    return null;
+  }
+}
+
+export function canSuggestRedactions(): boolean {
+  return typeof window !== 'undefined' && ('FaceDetector' in window || 'TextDetector' in window);
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function toRegion(box: DOMRectReadOnly, imageWidth: number, imageHeight: number, source: RedactionSource): RedactionRegion {
+  const padX = box.width * DETECTION_PADDING;
+  const padY = box.height * DETECTION_PADDING;
+  const x = clamp01((box.x - padX) / imageWidth);
+  const y = clamp01((box.y - padY) / imageHeight);
+  return {
+    x,
+    y,
+    width: clamp01((box.x + box.width + padX) / imageWidth) - x,
+    height: clamp01((box.y + box.height + padY) / imageHeight) - y,
+    source,
+  };
+}
+
+/**
+ * Suggest regions for faces and plate-like text in a loaded image. Detector failures are ignored;
+ * an empty list means nothing was found or no detector is available.
+ */
+export async function suggestRedactions(image: HTMLImageElement): Promise<RedactionRegion[]> {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  if (!width || !height) return [];
+
+  const regions: RedactionRegion[] = [];
+
+  const faceDetector = getDetector('FaceDetector', { fastMode: false, maxDetectedFaces: 20 });
+  if (faceDetector) {
+    const faces = await faceDetector.detect(image).catch(() => []);
+    for (const face of faces) regions.push(toRegion(face.boundingBox, width, height, 'face'));
+  }
+
+  const textDetector = getDetector('TextDetector');
+  if (textDetector) {
+    const texts = await textDetector.detect(image).catch(() => []);
+    for (const text of texts) {
+      const { width: w, height: h } = text.boundingBox;
+      const aspect = h > 0 ? w / h : 0;
+      const looksLikePlate =
+        aspect >= PLATE_MIN_ASPECT &&
+        aspect <= PLATE_MAX_ASPECT &&
+        (text.rawValue === undefined || PLATE_TEXT.test(text.rawValue.trim()));
+      if (looksLikePlate) regions.push(toRegion(text.boundingBox, width, height, 'plate'));
+    }
+  }
+
+  return regions;
+}
@@ -1,50 +1,60 @@
-import exifr from 'exifr';
+import { stripImageMetadata } from '@/lib/media/imageMetadata';
+import { stripVideoMetadata } from '@/lib/media/videoMetadata';
+import type { RedactionRegion } from '@/lib/media/redaction';
+
+/** Blocks across the longer side of a redacted region; coarse enough that faces and plates are unreadable */
+const PIXELATE_BLOCKS = 8;
 
 /**
- * Strip EXIF data from an image file, preserving only essential metadata if needed
- * Returns a new Blob with scrubbed data
- * Note: This function requires browser APIs and will only work in the browser
+ * Pixelate a normalized region of the canvas in place
  */
-export async function scrubImageExif(file: File): Promise<Blob> {
-  // Guard: Only run in browser
-  if (typeof window === 'undefined' || typeof document === 'undefined') {
-    // In SSR/build, return file as-is
-    return file;
-  }
+function pixelateRegion(ctx: CanvasRenderingContext2D, region: RedactionRegion): void {
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const x = Math.max(0, Math.floor(region.x * canvasWidth));
+  const y = Math.max(0, Math.floor(region.y * canvasHeight));
+  const width = Math.min(canvasWidth - x, Math.ceil(region.width * canvasWidth));
+  const height = Math.min(canvasHeight - y, Math.ceil(region.height * canvasHeight));
+  if (width < 1 || height < 1) return;
 
-  // Read the file as array buffer
-  const arrayBuffer = await file.arrayBuffer();
-  
-  // Parse EXIF to check if it exists
-  const exifData = await exifr.parse(arrayBuffer, {
-    pick: ['GPSLatitude', 'GPSLongitude'], // Only check for GPS, we'll remove it
-  });
+  const blockSize = Math.max(4, Math.ceil(Math.max(width, height) / PIXELATE_BLOCKS));
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(width / blockSize));
+  small.height = Math.max(1, Math.ceil(height / blockSize));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) throw new Error('Could not get canvas context');
 
-  // If no EXIF, return original file as blob
-  if (!exifData) {
-    return new Blob([arrayBuffer], { type: file.type });
-  }
+  // Downscale (averaging each block), then scale back up without smoothing
+  smallCtx.drawImage(ctx.canvas, x, y, width, height, 0, 0, small.width, small.height);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height);
+  ctx.imageSmoothingEnabled = true;
+}
 
-  // For images with EXIF, we need to strip it
-  // Using canvas to re-encode without EXIF
+/**
+ * Decode an image, pixelate any redactions and re-encode it through a canvas.
+ * Re-encoding drops all metadata; the browser applies the EXIF orientation while decoding,
+ * so the output pixels are upright and need no orientation tag.
+ */
+function renderThroughCanvas(file: File, type: string, redactions: RedactionRegion[]): Promise<Blob> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     const url = URL.createObjectURL(file);
-    
+
     img.onload = () => {
       URL.revokeObjectURL(url);
       const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+
       const ctx = canvas.getContext('2d');
       if (!ctx) {
         reject(new Error('Could not get canvas context'));
         return;
       }
-      
+
       ctx.drawImage(img, 0, 0);
-      
+      for (const region of redactions) pixelateRegion(ctx, region);
+
       canvas.toBlob(
         (blob) => {
           if (blob) {
@@ -53,20 +63,44 @@ export async function scrubImageExif(file: File): Promise<Blob> {
             reject(new Error('Failed to create blob'));
           }
         },
-        file.type || 'image/jpeg',
-        0.92 // Quality
+        type,
+        0.92 // Quality (JPEG only)
       );
     };
-    
+
     img.onerror = () => {
       URL.revokeObjectURL(url);
       reject(new Error('Failed to load image'));
     };
-    
+
     img.src = url;
   });
 }
 
+/**
+ * Strip all metadata (EXIF, XMP, IPTC, comments, thumbnails) from an image file.
+ * Without redactions, JPEG, PNG, WebP and HEIF/HEIC/AVIF are stripped losslessly at the byte level,
+ * keeping orientation. Redacted photos and other formats go through the canvas pipeline: JPEG stays
+ * JPEG, everything else becomes PNG (lossless and accepted by /api/media whatever the source was).
+ * Returns a new Blob with scrubbed data
+ */
+export async function scrubImageExif(file: File, redactions: RedactionRegion[] = []): Promise<Blob> {
+  if (redactions.length === 0) {
+    const stripped = stripImageMetadata(new Uint8Array(await file.arrayBuffer()));
+    if (stripped) {
+      return new Blob([stripped], { type: file.type });
+    }
+  }
+
+  // Canvas pipeline requires browser APIs
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    throw new Error('Unsupported image format');
+  }
+
+  const type = file.type === 'image/jpeg' && redactions.length > 0 ? 'image/jpeg' : 'image/png';
+  return renderThroughCanvas(file, type, redactions);
+}
+
 /**
  * Check if a file is a video (basic check)
  */
@@ -75,20 +109,22 @@ export function isVideoFile(file: File): boolean {
 }
 
 /**
- * For videos, we can't easily strip metadata client-side
- * Return the file as-is but note that server-side processing may be needed
+ * Strip metadata (GPS atoms, device info, XMP, Matroska tags) from an MP4/MOV or WebM video.
+ * Other containers are rejected rather than uploaded with their metadata intact.
  */
 export async function scrubVideoMetadata(file: File): Promise<Blob> {
-  // For now, return as-is
-  // In production, you might want to use FFmpeg.wasm or process on server
-  return file;
+  const stripped = stripVideoMetadata(new Uint8Array(await file.arrayBuffer()));
+  if (!stripped) {
+    throw new Error('Unsupported video format. Please upload MP4, MOV or WebM.');
+  }
+  return new Blob([stripped], { type: file.type });
 }
 
 /**
  * Main scrubbing function - routes to appropriate handler
  * Note: This function requires browser APIs and will only work in the browser
  */
-export async function scrubMediaFile(file: File): Promise<Blob> {
+export async function scrubMediaFile(file: File, redactions: RedactionRegion[] = []): Promise<Blob> {
   // Guard: Only run in browser
   if (typeof window === 'undefined') {
     // In SSR/build, return file as-is
@@ -98,6 +134,6 @@ export async function scrubMediaFile(file: File): Promise<Blob> {
   if (isVideoFile(file)) {
     return scrubVideoMetadata(file);
   } else {
-    return scrubImageExif(file);
+    return scrubImageExif(file, redactions);
   }
 }
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readIsoBoxes } from '@/lib/media/bytes';
+import { detectVideoContainer, readVideoDurationSeconds, stripVideoMetadata } from '@/lib/media/videoMetadata';
+import {
+  FIXTURE_DURATION_SECONDS,
+  ISO6709_LOCATION,
+  SAMPLE_DATA_MARKER,
+  findPrivateData,
+  includesText,
+  indexOfBytes,
+  readFixture,
+} from '@/lib/media/__fixtures__';
+
+function strip(bytes: Uint8Array): Uint8Array {
+  const out = stripVideoMetadata(bytes);
+  assert.ok(out, 'expected a supported container');
+  return out;
+}
+
+/** Types of every box under moov (recursing into trak and udta), in file order */
+function moovBoxTypes(bytes: Uint8Array): string[] {
+  const types: string[] = [];
+  const walk = (start: number, end: number) => {
+    for (const box of readIsoBoxes(bytes, start, end)) {
+      types.push(box.type);
+      if (['moov', 'trak', 'udta'].includes(box.type)) walk(box.dataStart, box.end);
+    }
+  };
+  walk(0, bytes.length);
+  return types;
+}
+
+const TAGS_ID = new Uint8Array([0x12, 0x54, 0xc3, 0x67]);
+
+describe('stripVideoMetadata', () => {
+  for (const [name, container] of [
+    ['video.mp4', 'mp4'],
+    ['video.mov', 'mp4'],
+    ['video.webm', 'matroska'],
+    ['recording.webm', 'matroska'],
+  ] as const) {
+    describe(name, () => {
+      const input = readFixture(name);
+      const output = strip(input);
+
+      it('starts out with location and device data', () => {
+        assert.equal(detectVideoContainer(input), container);
+        assert.ok(findPrivateData(input).includes(ISO6709_LOCATION));
+      });
+
+      it('removes every tag, title and location', () => {
+        assert.deepEqual(findPrivateData(output), []);
+      });
+
+      it('blanks in place and leaves the sample data alone', () => {
+        assert.equal(output.length, input.length);
+        assert.ok(includesText(output, SAMPLE_DATA_MARKER));
+      });
+
+      it('still reports the duration', () => {
+        assert.equal(readVideoDurationSeconds(input), FIXTURE_DURATION_SECONDS);
+        assert.equal(readVideoDurationSeconds(output), FIXTURE_DURATION_SECONDS);
+      });
+
+      it('is idempotent', () => {
+        assert.deepEqual(strip(output), output);
+      });
+    });
+  }
+
+  for (const name of ['video.mp4', 'video.mov']) {
+    it(`turns udta, meta and XMP boxes in ${name} into free boxes`, () => {
+      const before = moovBoxTypes(readFixture(name));
+      const after = moovBoxTypes(strip(readFixture(name)));
+      assert.ok(before.includes('udta') && before.includes('meta'));
+      assert.deepEqual(after.filter((type) => ['udta', 'meta', 'uuid', 'XMP_'].includes(type)), []);
+      assert.ok(after.includes('free') && after.includes('mvhd') && after.includes('tkhd'));
+    });
+  }
+
+  for (const name of ['video.webm', 'recording.webm']) {
+    it(`voids the Tags element in ${name} (and the SeekHead entry pointing at it)`, () => {
+      assert.notEqual(indexOfBytes(readFixture(name), TAGS_ID), -1);
+      assert.equal(indexOfBytes(strip(readFixture(name)), TAGS_ID), -1);
+    });
+  }
+
+  it('leaves HEIC stills to stripImageMetadata', () => {
+    assert.equal(stripVideoMetadata(readFixture('photo.heic')), null);
+  });
+});
@@ -0,0 +1,325 @@
+import { ascii, readIsoBoxes, readU32BE, type IsoBox } from '@/lib/media/bytes';
+import { detectImageContainer } from '@/lib/media/imageMetadata';
+
+/**
+ * Byte-level metadata removal for videos (MP4/MOV and WebM/Matroska), browser and server alike.
+ *
+ * Metadata is blanked in place rather than cut out: MP4/MOV boxes become zero-filled `free` boxes and
+ * Matroska elements become zero-filled `Void` elements. Both are defined by their formats as padding,
+ * so sample offsets (stco/co64, SeekHead, Cues) stay valid and no audio/video data is rewritten.
+ *
+ * Removed: udta (©xyz GPS, ©mak/©mod device, ©day), meta/ilst and QuickTime mdta keys
+ * (com.apple.quicktime.location.*), XMP boxes; Matroska Tags, Attachments, Title and DateUTC.
+ * Not covered: timed metadata tracks whose samples live in mdat (rare outside dedicated camera apps).
+ */
+
+export type VideoContainer = 'mp4' | 'matroska';
+
+/** Box types that may start a QuickTime file without a leading ftyp */
+const QUICKTIME_LEADING_BOXES = new Set(['moov', 'mdat', 'wide', 'free', 'skip', 'pnot']);
+
+/**
+ * Detect the container from magic bytes (the browser-supplied MIME type is not trusted)
+ */
+export function detectVideoContainer(bytes: Uint8Array): VideoContainer | null {
+  if (bytes.length >= 4 && readU32BE(bytes, 0) === EBML_HEADER_ID) return 'matroska';
+  if (bytes.length >= 8) {
+    const firstBox = ascii(bytes, 4, 4);
+    if (firstBox === 'ftyp' && detectImageContainer(bytes) !== 'heif') return 'mp4';
+    if (QUICKTIME_LEADING_BOXES.has(firstBox)) return 'mp4';
+  }
+  return null;
+}
+
+/**
+ * Strip all metadata from a video.
+ * Returns null when the format is not one of the supported containers; throws on malformed files.
+ */
+export function stripVideoMetadata(bytes: Uint8Array): Uint8Array<ArrayBuffer> | null {
+  switch (detectVideoContainer(bytes)) {
+    case 'mp4':
+      return stripMp4(bytes);
+    case 'matroska':
+      return stripMatroska(bytes);
+    default:
+      return null;
+  }
+}
+
+// --- MP4 / MOV ---
+
+/** Boxes whose children are walked; everything else is left as-is */
+const MP4_CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'edts', 'mvex', 'moof', 'traf']);
+
+/** udta = user data (©xyz, ©mak, ©mod…), meta = iTunes/QuickTime metadata, XMP_ = Adobe XMP */
+const MP4_METADATA_BOXES = new Set(['udta', 'meta', 'XMP_']);
+
+/** uuid box carrying XMP (BE7ACFCB-97A9-42E8-9C71-999491E3AFAC) */
+const XMP_UUID = [0xbe, 0x7a, 0xcf, 0xcb, 0x97, 0xa9, 0x42, 0xe8, 0x9c, 0x71, 0x99, 0x94, 0x91, 0xe3, 0xaf, 0xac];
+
+function isXmpUuidBox(bytes: Uint8Array, box: IsoBox): boolean {
+  return (
+    box.type === 'uuid' &&
+    box.dataStart + 16 <= box.end &&
+    XMP_UUID.every((byte, i) => bytes[box.dataStart + i] === byte)
+  );
+}
+
+/** Turn a box into a zero-filled free box of the same size (its header size field is kept) */
+function blankMp4Box(out: Uint8Array, box: IsoBox): void {
+  out.set([0x66, 0x72, 0x65, 0x65], box.start + 4); // "free"
+  out.fill(0, box.dataStart, box.end);
+}
+
+function blankMp4Metadata(bytes: Uint8Array, out: Uint8Array, start: number, end: number): void {
+  for (const box of readIsoBoxes(bytes, start, end)) {
+    if (MP4_METADATA_BOXES.has(box.type) || isXmpUuidBox(bytes, box)) {
+      blankMp4Box(out, box);
+    } else if (MP4_CONTAINER_BOXES.has(box.type)) {
+      blankMp4Metadata(bytes, out, box.dataStart, box.end);
+    }
+  }
+}
+
+function stripMp4(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = bytes.slice();
+  blankMp4Metadata(bytes, out, 0, bytes.length);
+  return out;
+}
+
+// --- WebM / Matroska (EBML) ---
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const SEEK_HEAD_ID = 0x114d9b74;
+const SEEK_ID = 0x4dbb;
+const SEEK_ID_ID = 0x53ab;
+const INFO_ID = 0x1549a966;
+const CLUSTER_ID = 0x1f43b675;
+const TAGS_ID = 0x1254c367;
+const ATTACHMENTS_ID = 0x1941a469;
+const VOID_ID = 0xec;
+
+/** Children of Info that carry metadata rather than playback parameters */
+const INFO_METADATA_IDS = new Set([
+  0x7ba9, // Title
+  0x4461, // DateUTC
+]);
+
+/** Top-level Segment children; an unknown-size Cluster ends where the next one starts */
+const SEGMENT_CHILD_IDS = new Set([
+  SEEK_HEAD_ID,
+  INFO_ID,
+  0x1654ae6b, // Tracks
+  0x1c53bb6b, // Cues
+  CLUSTER_ID,
+  TAGS_ID,
+  ATTACHMENTS_ID,
+  0x1043a770, // Chapters
+]);
+
+const SEGMENT_METADATA_IDS = new Set([TAGS_ID, ATTACHMENTS_ID]);
+
+type EbmlElement = {
+  id: number;
+  start: number;
+  dataStart: number;
+  /** Exclusive; for unknown-size elements, the end of the enclosing range */
+  end: number;
+  unknownSize: boolean;
+};
+
+/** Variable-length integer: length from leading zeros of the first byte */
+function readVint(bytes: Uint8Array, pos: number, keepMarker: boolean): { value: number; length: number } {
+  const first = bytes[pos];
+  if (first === undefined || first === 0) throw new Error('Malformed Matroska file: invalid variable-length integer');
+  const length = Math.clz32(first) - 23;
+  if (pos + length > bytes.length) throw new Error('Malformed Matroska file: truncated element');
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[pos + i];
+  return { value, length };
+}
+
+function isUnknownSize(bytes: Uint8Array, pos: number, length: number): boolean {
+  if (bytes[pos] !== (0xff >> (length - 1))) return false;
+  for (let i = 1; i < length; i++) if (bytes[pos + i] !== 0xff) return false;
+  return true;
+}
+
+function readEbmlElement(bytes: Uint8Array, pos: number, limit: number): EbmlElement {
+  const id = readVint(bytes, pos, true);
+  const sizePos = pos + id.length;
+  const size = readVint(bytes, sizePos, false);
+  const dataStart = sizePos + size.length;
+  const unknownSize = isUnknownSize(bytes, sizePos, size.length);
+  const end = unknownSize ? limit : dataStart + size.value;
+  if (end > limit) throw new Error('Malformed Matroska file: truncated element');
+  return { id: id.value, start: pos, dataStart, end, unknownSize };
+}
+
+/** Where an unknown-size Cluster ends: at the next Segment-level element (or the end of the range) */
+function findClusterEnd(bytes: Uint8Array, cluster: EbmlElement): number {
+  let pos = cluster.dataStart;
+  while (pos < cluster.end) {
+    const child = readEbmlElement(bytes, pos, cluster.end);
+    if (SEGMENT_CHILD_IDS.has(child.id) || child.unknownSize) return pos;
+    pos = child.end;
+  }
+  return cluster.end;
+}
+
+/**
+ * Overwrite [start, end) with a Void element: ID 0xEC, an 8-byte size (or a shorter one with
+ * no payload for tiny ranges), then zeros
+ */
+function writeVoid(out: Uint8Array, start: number, end: number): void {
+  const total = end - start;
+  const sizeLength = Math.min(8, total - 1);
+  const payload = total - 1 - sizeLength;
+  out.fill(0, start, end);
+  out[start] = VOID_ID;
+  out[start + 1] = 0x80 >> (sizeLength - 1);
+  let remaining = payload;
+  for (let i = sizeLength - 1; i >= 1 && remaining > 0; i--) {
+    out[start + 1 + i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+}
+
+function readChildren(bytes: Uint8Array, start: number, end: number): EbmlElement[] {
+  const children: EbmlElement[] = [];
+  let pos = start;
+  while (pos < end) {
+    const child = readEbmlElement(bytes, pos, end);
+    children.push(child);
+    pos = child.end;
+  }
+  return children;
+}
+
+function readEbmlUint(bytes: Uint8Array, element: EbmlElement): number {
+  let value = 0;
+  for (let i = element.dataStart; i < element.end; i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+/** Seek entries pointing at removed elements are voided too */
+function seekTargetsMetadata(bytes: Uint8Array, seek: EbmlElement): boolean {
+  const seekId = readChildren(bytes, seek.dataStart, seek.end).find((c) => c.id === SEEK_ID_ID);
+  return !!seekId && SEGMENT_METADATA_IDS.has(readEbmlUint(bytes, seekId));
+}
+
+function stripMatroska(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = bytes.slice();
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const element = readEbmlElement(bytes, pos, bytes.length);
+    pos = element.end;
+    if (element.id !== SEGMENT_ID) continue;
+
+    let childPos = element.dataStart;
+    while (childPos < element.end) {
+      let child = readEbmlElement(bytes, childPos, element.end);
+      if (child.unknownSize && child.id === CLUSTER_ID) {
+        child = { ...child, end: findClusterEnd(bytes, child) };
+      }
+
+      if (SEGMENT_METADATA_IDS.has(child.id)) {
+        writeVoid(out, child.start, child.end);
+      } else if (child.id === INFO_ID && !child.unknownSize) {
+        for (const field of readChildren(bytes, child.dataStart, child.end)) {
+          if (INFO_METADATA_IDS.has(field.id)) writeVoid(out, field.start, field.end);
+        }
+      } else if (child.id === SEEK_HEAD_ID && !child.unknownSize) {
+        for (const seek of readChildren(bytes, child.dataStart, child.end)) {
+          if (seek.id === SEEK_ID && seekTargetsMetadata(bytes, seek)) writeVoid(out, seek.start, seek.end);
+        }
+      }
+      childPos = child.end;
+    }
+  }
+  return out;
+}
+
+// --- Duration ---
+
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const CLUSTER_TIMECODE_ID = 0xe7;
+
+/**
+ * Playback length in seconds, or null when the container does not say.
+ * MP4/MOV: mvhd duration / timescale. Matroska: Info Duration, falling back to the last
+ * Cluster timecode for recordings written without a duration (e.g. MediaRecorder).
+ */
+export function readVideoDurationSeconds(bytes: Uint8Array): number | null {
+  switch (detectVideoContainer(bytes)) {
+    case 'mp4':
+      return readMp4Duration(bytes);
+    case 'matroska':
+      return readMatroskaDuration(bytes);
+    default:
+      return null;
+  }
+}
+
+function readMp4Duration(bytes: Uint8Array): number | null {
+  const moov = readIsoBoxes(bytes, 0, bytes.length).find((box) => box.type === 'moov');
+  const mvhd = moov && readIsoBoxes(bytes, moov.dataStart, moov.end).find((box) => box.type === 'mvhd');
+  if (!mvhd) return null;
+
+  // Full box; version 1 uses 64-bit creation/modification times and duration
+  const version = bytes[mvhd.dataStart];
+  const timescalePos = mvhd.dataStart + 4 + (version === 1 ? 16 : 8);
+  if (timescalePos + (version === 1 ? 12 : 8) > mvhd.end) return null;
+  const timescale = readU32BE(bytes, timescalePos);
+  const duration =
+    version === 1
+      ? readU32BE(bytes, timescalePos + 4) * 2 ** 32 + readU32BE(bytes, timescalePos + 8)
+      : readU32BE(bytes, timescalePos + 4);
+
+  if (!timescale || !duration) return null;
+  return duration / timescale;
+}
+
+function readEbmlFloat(bytes: Uint8Array, element: EbmlElement): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + element.dataStart, element.end - element.dataStart);
+  if (view.byteLength === 4) return view.getFloat32(0);
+  if (view.byteLength === 8) return view.getFloat64(0);
+  return null;
+}
+
+function readMatroskaDuration(bytes: Uint8Array): number | null {
+  let timecodeScale = 1_000_000; // nanoseconds per timecode unit (Matroska default)
+  let duration: number | null = null;
+  let lastClusterTimecode: number | null = null;
+
+  for (const element of readChildren(bytes, 0, bytes.length)) {
+    if (element.id !== SEGMENT_ID) continue;
+
+    let pos = element.dataStart;
+    while (pos < element.end) {
+      let child = readEbmlElement(bytes, pos, element.end);
+      if (child.unknownSize && child.id === CLUSTER_ID) {
+        child = { ...child, end: findClusterEnd(bytes, child) };
+      }
+
+      if (child.id === INFO_ID && !child.unknownSize) {
+        for (const field of readChildren(bytes, child.dataStart, child.end)) {
+          if (field.id === TIMECODE_SCALE_ID) timecodeScale = readEbmlUint(bytes, field) || timecodeScale;
+          if (field.id === DURATION_ID) duration = readEbmlFloat(bytes, field);
+        }
+      } else if (child.id === CLUSTER_ID && duration === null) {
+        const first = readEbmlElement(bytes, child.dataStart, child.end);
+        if (first.id === CLUSTER_TIMECODE_ID) lastClusterTimecode = readEbmlUint(bytes, first);
+      }
+      pos = child.end;
+    }
+  }
+
+  const units = duration ?? lastClusterTimecode;
+  if (!units) return null;
+  return (units * timecodeScale) / 1e9;
+}
@@ -0,0 +1,11 @@
+import FingerprintJS from '@fingerprintjs/fingerprintjs';
+
+/**
+ * Stable FingerprintJS visitor id for this browser.
+ * Only call from client components.
+ */
+export async function getDeviceFingerprint(): Promise<string> {
+  const fp = await FingerprintJS.load();
+  const result = await fp.get();
+  return result.visitorId;
+}
@@ -1,31 +1,91 @@
 /**
- * Generate a privacy-preserving validator hash for anonymous users
- * Uses a combination of localStorage token + sighting ID to prevent duplicate validations
+ * Privacy-preserving device identity for validations
+ *
+ * - Client: HMAC-SHA-256(device secret, sighting id). The device secret never
+ *   leaves the browser, and hashes for two sightings cannot be linked.
+ * - Server: HMAC-SHA-256(IDENTITY_PEPPER, client hash + sighting id), so stored
+ *   values cannot be recomputed from a known device secret or visitorId.
  */
-export function generateValidatorHash(sightingId: string): string {
-  // Get or create a device token from localStorage
-  const STORAGE_KEY = 'ice_out_validator_token';
-  let deviceToken = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
-
-  if (!deviceToken) {
-    // Generate a random token if none exists
-    deviceToken = crypto.randomUUID() + '-' + Date.now();
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(STORAGE_KEY, deviceToken);
-    }
-  }
 
-  // Hash the combination of device token + sighting ID
-  // This ensures one device can only validate a sighting once
-  const combined = `${deviceToken}:${sightingId}`;
-  
-  // Simple hash function (for production, consider using Web Crypto API)
-  let hash = 0;
-  for (let i = 0; i < combined.length; i++) {
-    const char = combined.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
+const STORAGE_KEY = 'ice_out_validator_token';
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * HMAC-SHA-256 via Web Crypto (available in browsers and Node 20+)
+ */
+export async function hmacSha256Hex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+  return toHex(signature);
+}
+
+/**
+ * Get or create the random per-device secret kept in localStorage
+ */
+function getDeviceSecret(): string {
+  const existing = localStorage.getItem(STORAGE_KEY);
+  if (existing) return existing;
+
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const secret = toHex(bytes);
+  localStorage.setItem(STORAGE_KEY, secret);
+  return secret;
+}
+
+/**
+ * Generate a per-sighting device hash (64 hex chars) in the browser.
+ * `purpose` separates uses (e.g. 'validation', 'flag') so hashes cannot be
+ * matched across tables. The same device always gets the same hash for the
+ * same purpose and sighting.
+ *
+ * By default the secret is a random token in localStorage. Pass the FingerprintJS
+ * visitorId as `deviceSecret` to derive a hash that survives storage clears.
+ */
+export async function generateDeviceHash(
+  purpose: string,
+  sightingId: string,
+  deviceSecret?: string
+): Promise<string> {
+  if (!deviceSecret && typeof window === 'undefined') {
+    throw new Error('generateDeviceHash needs a deviceSecret outside the browser');
   }
-  
-  return Math.abs(hash).toString(36) + Date.now().toString(36);
+  const secret = deviceSecret ?? getDeviceSecret();
+  return hmacSha256Hex(secret, `${purpose}:${sightingId}`);
+}
+
+/**
+ * Per-sighting validator hash (see generateDeviceHash)
+ */
+export async function generateValidatorHash(sightingId: string, deviceSecret?: string): Promise<string> {
+  return generateDeviceHash('validation', sightingId, deviceSecret);
+}
+
+/**
+ * Check the shape of a client-generated device hash
+ */
+export function isValidatorHash(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Server-side: key a client hash with IDENTITY_PEPPER before it is stored.
+ * Only call from route handlers.
+ */
+export async function pepperValidatorHash(clientHash: string, sightingId: string): Promise<string> {
+  const pepper = process.env.IDENTITY_PEPPER;
+  if (!pepper) throw new Error('Missing IDENTITY_PEPPER');
+  return hmacSha256Hex(pepper, `${sightingId}:${clientHash}`);
 }
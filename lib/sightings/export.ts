@@ -0,0 +1,144 @@
+import type { Sighting } from '@/lib/supabase/browser';
+import { MEDIA_BUCKET } from '@/lib/media/buckets';
+
+/**
+ * Serializers for GET /api/export.
+ * CSV uses the columns scripts/import_sightings.ts reads (including id, status and location_precision_m),
+ * so an export can be re-imported. Only sighting fields are exported: no validator, device or moderation data.
+ */
+
+export const EXPORT_FORMATS = ['csv', 'geojson', 'kml'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Columns selected for export; anything identifying validators stays out */
+export const EXPORT_COLUMNS =
+  'id, event_time, lat, lng, location_precision_m, activity_type, notes, media, status, validations_count';
+
+export type ExportSighting = Pick<
+  Sighting,
+  | 'id'
+  | 'event_time'
+  | 'lat'
+  | 'lng'
+  | 'location_precision_m'
+  | 'activity_type'
+  | 'notes'
+  | 'media'
+  | 'status'
+  | 'validations_count'
+>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  geojson: 'application/geo+json; charset=utf-8',
+  kml: 'application/vnd.google-earth.kml+xml; charset=utf-8',
+};
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'lat',
+  'lng',
+  'activity_type',
+  'notes',
+  'media_urls',
+  'id',
+  'status',
+  'location_precision_m',
+];
+
+/** Public URL for a stored media path; imported rows may already hold a full URL */
+export function getMediaPublicUrl(supabaseUrl: string, path: string): string {
+  if (/^https?:\/\//i.test(path)) return path;
+  return `${supabaseUrl}/storage/v1/object/public/${MEDIA_BUCKET}/${path.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// Spreadsheet apps run cells starting with these as formulas; user text gets a leading apostrophe
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function exportHeader(format: ExportFormat): string {
+  if (format === 'csv') return `${CSV_COLUMNS.join(',')}\r\n`;
+  if (format === 'geojson') return '{"type":"FeatureCollection","features":[\n';
+  return '<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n<name>ICE OUT sightings</name>\n';
+}
+
+export function exportFooter(format: ExportFormat): string {
+  if (format === 'csv') return '';
+  if (format === 'geojson') return '\n]}\n';
+  return '</Document>\n</kml>\n';
+}
+
+/**
+ * Serialize one sighting. `index` is its position in the export (GeoJSON needs separators between
+ * features); `mediaUrls` are the public URLs for sighting.media.
+ */
+export function exportRow(format: ExportFormat, sighting: ExportSighting, mediaUrls: string[], index: number): string {
+  if (format === 'csv') {
+    return (
+      [
+        sighting.event_time,
+        String(sighting.lat),
+        String(sighting.lng),
+        neutralizeFormula(sighting.activity_type),
+        neutralizeFormula(sighting.notes ?? ''),
+        mediaUrls.join(','),
+        sighting.id,
+        sighting.status,
+        String(sighting.location_precision_m),
+      ]
+        .map(csvField)
+        .join(',') + '\r\n'
+    );
+  }
+
+  if (format === 'geojson') {
+    const feature = {
+      type: 'Feature',
+      id: sighting.id,
+      geometry: { type: 'Point', coordinates: [sighting.lng, sighting.lat] },
+      properties: {
+        event_time: sighting.event_time,
+        activity_type: sighting.activity_type,
+        notes: sighting.notes,
+        status: sighting.status,
+        validations_count: sighting.validations_count,
+        location_precision_m: sighting.location_precision_m,
+        media_urls: mediaUrls,
+      },
+    };
+    return `${index > 0 ? ',\n' : ''}${JSON.stringify(feature)}`;
+  }
+
+  const data: Array<[string, string]> = [
+    ['status', sighting.status],
+    ['validations_count', String(sighting.validations_count)],
+    ['location_precision_m', String(sighting.location_precision_m)],
+    ['media_urls', mediaUrls.join(',')],
+  ];
+  return [
+    `<Placemark id="${xmlEscape(sighting.id)}">`,
+    `<name>${xmlEscape(sighting.activity_type)}</name>`,
+    ...(sighting.notes ? [`<description>${xmlEscape(sighting.notes)}</description>`] : []),
+    `<TimeStamp><when>${xmlEscape(sighting.event_time)}</when></TimeStamp>`,
+    '<ExtendedData>',
+    ...data.map(([name, value]) => `<Data name="${name}"><value>${xmlEscape(value)}</value></Data>`),
+    '</ExtendedData>',
+    `<Point><coordinates>${sighting.lng},${sighting.lat}</coordinates></Point>`,
+    '</Placemark>\n',
+  ].join('');
+}
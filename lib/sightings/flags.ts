@@ -0,0 +1,10 @@
+import type { FlagReason } from '@/lib/supabase/browser';
+
+/** Reasons offered in the public "flag this report" form, in display order */
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  personal_info: 'Personal info in notes',
+  faces_in_media: 'Faces in media',
+  spam: 'Spam',
+  duplicate: 'Duplicate',
+  wrong_location: 'Wrong location',
+};
@@ -0,0 +1,25 @@
+import { supabase, type Sighting } from '@/lib/supabase/browser';
+import { haversineDistance, initialBearing } from '@/lib/geo/haversine';
+
+export type NearestSighting = { sighting: Sighting; distanceMeters: number; bearing: number };
+
+/**
+ * Closest live sighting to the viewer via the nearest_sightings RPC (PostGIS KNN).
+ * The viewer's coordinates are only sent as query parameters; nothing is written.
+ */
+export async function fetchNearestSighting(lat: number, lng: number): Promise<NearestSighting | null> {
+  const { data, error } = await supabase
+    .rpc('nearest_sightings', { p_lat: lat, p_lng: lng, p_limit: 1, p_live_only: true })
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message || 'Failed to find the nearest sighting');
+  }
+  if (!data) return null;
+
+  const sighting = data as Sighting;
+  return {
+    sighting,
+    distanceMeters: haversineDistance(lat, lng, sighting.lat, sighting.lng),
+    bearing: initialBearing(lat, lng, sighting.lat, sighting.lng),
+  };
+}
@@ -0,0 +1,114 @@
+import { useEffect, useEffectEvent } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, type Sighting } from '@/lib/supabase/browser';
+
+/**
+ * Shared realtime feed for sightings.
+ * One channel serves every subscriber on the page (stats, recent list, table, map): postgres_changes on
+ * public.sightings plus the "moderation" broadcast, which announces hidden/deleted rows that RLS stops
+ * postgres_changes from delivering. The channel opens with the first subscriber and closes with the last.
+ * Dropped connections are retried with exponential backoff; events sent while disconnected are lost, so
+ * subscribers get a 'resync' once the channel is back and should reload what they show.
+ */
+
+export type SightingChange =
+  | { type: 'upsert'; sighting: Sighting }
+  | { type: 'remove'; id: string }
+  | { type: 'resync' };
+
+type SightingChangeListener = (change: SightingChange) => void;
+
+// Moderation is broadcast on this topic by moderate_sighting() and the auto-hide trigger
+const SIGHTINGS_TOPIC = 'sightings-moderation';
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const listeners = new Set<SightingChangeListener>();
+let channel: RealtimeChannel | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+let hasConnected = false;
+
+function emit(change: SightingChange) {
+  for (const listener of listeners) listener(change);
+}
+
+function closeChannel() {
+  const current = channel;
+  channel = null;
+  if (current) supabase.removeChannel(current);
+}
+
+function scheduleReconnect() {
+  closeChannel();
+  if (reconnectTimer || listeners.size === 0) return;
+
+  // Jittered so clients that dropped together do not reconnect in lockstep
+  const backoff = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnectAttempts);
+  reconnectAttempts += 1;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    if (listeners.size > 0) connect();
+  }, backoff / 2 + Math.random() * (backoff / 2));
+}
+
+function connect() {
+  const current = supabase
+    .channel(SIGHTINGS_TOPIC)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'sightings',
+      },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          emit({ type: 'remove', id: payload.old.id as string });
+        } else {
+          emit({ type: 'upsert', sighting: payload.new as Sighting });
+        }
+      }
+    )
+    .on('broadcast', { event: 'moderation' }, ({ payload }) => {
+      emit({ type: 'remove', id: payload.id as string });
+    });
+
+  channel = current;
+  current.subscribe((status) => {
+    // Ignore callbacks from a channel that has already been replaced or closed
+    if (channel !== current) return;
+    if (status === 'SUBSCRIBED') {
+      if (hasConnected) emit({ type: 'resync' });
+      hasConnected = true;
+      reconnectAttempts = 0;
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      scheduleReconnect();
+    }
+  });
+}
+
+/** Listen for sighting changes; returns the unsubscribe function */
+export function subscribeToSightings(listener: SightingChangeListener): () => void {
+  listeners.add(listener);
+  if (!channel && !reconnectTimer) connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    closeChannel();
+    reconnectAttempts = 0;
+    hasConnected = false;
+  };
+}
+
+/** React binding for subscribeToSightings; the latest listener is always called */
+export function useSightingChanges(listener: SightingChangeListener) {
+  const onChange = useEffectEvent(listener);
+
+  useEffect(() => subscribeToSightings((change) => onChange(change)), []);
+}
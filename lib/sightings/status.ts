@@ -0,0 +1,61 @@
+import type { Sighting, SightingStatus } from '@/lib/supabase/browser';
+
+/**
+ * Shared status rules for sightings.
+ * The database owns the lifecycle (see advance_sighting_lifecycle); the UI only maps
+ * the stored status to labels and colors and never recomputes ages.
+ */
+
+/** Every stored status, in lifecycle order */
+export const SIGHTING_STATUSES: SightingStatus[] = ['unverified', 'verified', 'active', 'confirmed', 'expired', 'historical'];
+
+/** Statuses shown in "Active" views (not yet aged out) */
+export const LIVE_STATUSES: SightingStatus[] = ['unverified', 'verified', 'active', 'confirmed'];
+
+/** Statuses that count as verified by the community or a trusted verifier */
+export const VERIFIED_STATUSES: SightingStatus[] = ['verified', 'active', 'confirmed'];
+
+/** Legend/marker group a status belongs to */
+export type StatusGroup = 'unverified' | 'verified' | 'historic';
+
+export type StatusDisplay = {
+  label: string;
+  group: StatusGroup;
+  /** Tailwind text color class */
+  textClass: string;
+};
+
+const STATUS_DISPLAY: Record<SightingStatus, StatusDisplay> = {
+  unverified: { label: 'Unverified', group: 'unverified', textClass: 'text-[#ffd700]' },
+  verified: { label: 'Verified', group: 'verified', textClass: 'text-[#ff3b30]' },
+  active: { label: 'Active', group: 'verified', textClass: 'text-[#ff3b30]' },
+  confirmed: { label: 'Confirmed', group: 'verified', textClass: 'text-[#ff3b30]' },
+  expired: { label: 'Expired', group: 'historic', textClass: 'text-[#4a4a4a]' },
+  historical: { label: 'Historic', group: 'historic', textClass: 'text-[#4a4a4a]' },
+};
+
+export function getStatusDisplay(status: SightingStatus): StatusDisplay {
+  return STATUS_DISPLAY[status] ?? STATUS_DISPLAY.unverified;
+}
+
+export function isLiveStatus(status: SightingStatus): boolean {
+  return LIVE_STATUSES.includes(status);
+}
+
+export function isVerifiedStatus(status: SightingStatus): boolean {
+  return VERIFIED_STATUSES.includes(status);
+}
+
+/**
+ * Score that counts toward promotion: confirmations minus disputes, as in refresh_sighting_validations()
+ */
+export function getNetValidationScore(sighting: Pick<Sighting, 'validation_score' | 'dispute_score'>): number {
+  return sighting.validation_score - sighting.dispute_score;
+}
+
+/**
+ * Weighted validation score for display (one decimal, integers unchanged)
+ */
+export function formatValidationScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+}
@@ -0,0 +1,149 @@
+/**
+ * Input validation for sighting submissions.
+ * Mirrors the check constraints on public.sightings so the API can return
+ * field-level errors before the database rejects a row.
+ */
+
+import { isLocationPrecision, snapToGrid, type LocationPrecision } from '@/lib/geo/precision';
+
+export const ACTIVITY_TYPE_MAX_LENGTH = 64;
+export const NOTES_MAX_LENGTH = 2000;
+export const MEDIA_MAX_ITEMS = 6;
+export const MEDIA_PATH_PREFIX = 'sightings/';
+
+// Allow small clock skew between the reporter's device and the server
+const EVENT_TIME_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+export type SightingField =
+  | 'lat'
+  | 'lng'
+  | 'location_precision_m'
+  | 'event_time'
+  | 'activity_type'
+  | 'notes'
+  | 'media';
+
+export type SightingFieldErrors = Partial<Record<SightingField, string>>;
+
+export type SightingMediaItem = { path: string; type: string; thumbPath?: string };
+
+export type SightingInput = {
+  lat: number;
+  lng: number;
+  location_precision_m: LocationPrecision;
+  event_time: string;
+  activity_type: string;
+  notes: string | null;
+  media: SightingMediaItem[];
+};
+
+export type SightingValidationResult =
+  | { ok: true; value: SightingInput }
+  | { ok: false; fieldErrors: SightingFieldErrors };
+
+/**
+ * Published thumbnail path for a media path (rendered by /api/media), so a submission cannot point
+ * thumbPath at some other file
+ */
+export function thumbnailPathFor(path: string): string {
+  return `${path.replace(/\.[^./]+$/, '')}-thumb.jpg`;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function validateMedia(media: unknown): string | null {
+  if (!Array.isArray(media)) return 'Media must be a list of uploaded files.';
+  if (media.length > MEDIA_MAX_ITEMS) return `At most ${MEDIA_MAX_ITEMS} files can be attached.`;
+
+  for (const item of media) {
+    if (!item || typeof item !== 'object') return 'Invalid media entry.';
+    const { path, type, thumbPath } = item as Record<string, unknown>;
+    if (typeof path !== 'string' || !path.startsWith(MEDIA_PATH_PREFIX) || path.includes('..')) {
+      return 'Invalid media path.';
+    }
+    if (typeof type !== 'string' || !(type.startsWith('image/') || type.startsWith('video/'))) {
+      return 'Media must be an image or video.';
+    }
+    if (thumbPath !== undefined && thumbPath !== thumbnailPathFor(path)) {
+      return 'Invalid media thumbnail path.';
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate an untrusted request body for a new sighting.
+ * Returns the normalized row on success, or a message per invalid field.
+ */
+export function validateSightingInput(body: unknown): SightingValidationResult {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const fieldErrors: SightingFieldErrors = {};
+
+  const { lat, lng } = input;
+  if (!isFiniteNumber(lat) || lat < -90 || lat > 90) {
+    fieldErrors.lat = 'Latitude must be between -90 and 90.';
+  }
+  if (!isFiniteNumber(lng) || lng < -180 || lng > 180) {
+    fieldErrors.lng = 'Longitude must be between -180 and 180.';
+  }
+
+  const locationPrecision = input.location_precision_m ?? 0;
+  if (!isLocationPrecision(locationPrecision)) {
+    fieldErrors.location_precision_m = 'Choose exact, ~100 m or ~500 m precision.';
+  }
+
+  const eventTime = typeof input.event_time === 'string' ? new Date(input.event_time) : null;
+  if (!eventTime || isNaN(eventTime.getTime())) {
+    fieldErrors.event_time = 'Enter a valid date and time.';
+  } else if (eventTime.getTime() > Date.now() + EVENT_TIME_FUTURE_SKEW_MS) {
+    fieldErrors.event_time = 'Event time cannot be in the future.';
+  }
+
+  const activityType = typeof input.activity_type === 'string' ? input.activity_type.trim() : '';
+  if (!activityType) {
+    fieldErrors.activity_type = 'Please enter an activity type.';
+  } else if (activityType.length > ACTIVITY_TYPE_MAX_LENGTH) {
+    fieldErrors.activity_type = `Activity type must be ${ACTIVITY_TYPE_MAX_LENGTH} characters or fewer.`;
+  }
+
+  let notes: string | null = null;
+  if (input.notes !== undefined && input.notes !== null) {
+    if (typeof input.notes !== 'string') {
+      fieldErrors.notes = 'Notes must be text.';
+    } else {
+      notes = input.notes.trim() || null;
+      if (notes && notes.length > NOTES_MAX_LENGTH) {
+        fieldErrors.notes = `Notes must be ${NOTES_MAX_LENGTH} characters or fewer.`;
+      }
+    }
+  }
+
+  const media = input.media ?? [];
+  const mediaError = validateMedia(media);
+  if (mediaError) fieldErrors.media = mediaError;
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { ok: false, fieldErrors };
+  }
+
+  // Snap again server-side so a fuzzed report never stores a finer point than it claims
+  const location = snapToGrid(lat as number, lng as number, locationPrecision as LocationPrecision);
+
+  return {
+    ok: true,
+    value: {
+      ...location,
+      location_precision_m: locationPrecision as LocationPrecision,
+      event_time: (eventTime as Date).toISOString(),
+      activity_type: activityType,
+      notes,
+      media: (media as SightingMediaItem[]).map(({ path, type, thumbPath }) => ({
+        path,
+        type,
+        ...(thumbPath ? { thumbPath } : {}),
+      })),
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import { supabase, type Sighting } from '@/lib/supabase/browser';
+import { LIVE_STATUSES } from '@/lib/sightings/status';
+
+/**
+ * Viewport-bounded sighting loading for the live map.
+ * The map asks the sightings_in_bbox RPC (PostGIS, newest first) for the rows inside its current
+ * bounds, a page at a time, instead of loading every sighting; realtime events for rows outside the
+ * bounds are ignored until the map is panned over them.
+ */
+
+export const VIEWPORT_PAGE_SIZE = 500;
+/** Stop paging past this many rows; the map asks the viewer to zoom in instead */
+export const VIEWPORT_MAX_SIGHTINGS = 5000;
+
+export type ViewportBounds = { south: number; west: number; north: number; east: number };
+
+export type ViewportResult = { sightings: Sighting[]; truncated: boolean };
+
+/**
+ * Clamp Leaflet bounds to valid coordinates. Views wider than the world (or wrapped past the
+ * antimeridian) fall back to the full longitude range.
+ */
+export function normalizeBounds(bounds: ViewportBounds): ViewportBounds {
+  const south = Math.max(-90, bounds.south);
+  const north = Math.min(90, bounds.north);
+  if (bounds.east - bounds.west >= 360 || bounds.west < -180 || bounds.east > 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+  return { south, west: bounds.west, north, east: bounds.east };
+}
+
+export function isInBounds(point: { lat: number; lng: number }, bounds: ViewportBounds): boolean {
+  return (
+    point.lat >= bounds.south && point.lat <= bounds.north && point.lng >= bounds.west && point.lng <= bounds.east
+  );
+}
+
+/** Fetch visible sightings inside the bounds, newest first, a page at a time */
+export async function fetchSightingsInBounds(
+  bounds: ViewportBounds,
+  options: { liveOnly: boolean; signal?: AbortSignal }
+): Promise<ViewportResult> {
+  const { south, west, north, east } = normalizeBounds(bounds);
+  const sightings: Sighting[] = [];
+
+  for (let from = 0; from < VIEWPORT_MAX_SIGHTINGS; from += VIEWPORT_PAGE_SIZE) {
+    let query = supabase
+      .rpc('sightings_in_bbox', {
+        p_south: south,
+        p_west: west,
+        p_north: north,
+        p_east: east,
+        p_live_only: options.liveOnly,
+      })
+      .range(from, from + VIEWPORT_PAGE_SIZE - 1);
+
+    if (options.signal) {
+      query = query.abortSignal(options.signal);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message || 'Failed to load sightings');
+    }
+
+    sightings.push(...((data ?? []) as Sighting[]));
+    if (!data || data.length < VIEWPORT_PAGE_SIZE) {
+      return { sightings, truncated: false };
+    }
+  }
+
+  return { sightings, truncated: true };
+}
+
+/** Most recent visible sighting, used to centre the map before any viewport is loaded */
+export async function fetchLatestSightingLocation(liveOnly: boolean): Promise<{ lat: number; lng: number } | null> {
+  let query = supabase
+    .from('sightings')
+    .select('lat, lng')
+    .eq('moderation_state', 'visible')
+    .order('event_time', { ascending: false })
+    .limit(1);
+
+  if (liveOnly) {
+    query = query.in('status', LIVE_STATUSES);
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error || !data) return null;
+  return data as { lat: number; lng: number };
+}
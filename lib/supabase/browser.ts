@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { LocationPrecision } from '@/lib/geo/precision';
 
 let supabaseInstance: SupabaseClient | null = null;
 
@@ -48,7 +49,20 @@ export const supabase = (() => {
 })();
 
 // Database types
-export type SightingStatus = 'unverified' | 'verified' | 'active' | 'confirmed';
+/**
+ * Lifecycle: unverified → verified → active → expired/historical (see advance_sighting_lifecycle).
+ * confirmed is set by trusted verifiers; expired = aged out unverified, historical = aged out after verification.
+ */
+export type SightingStatus =
+  | 'unverified'
+  | 'verified'
+  | 'active'
+  | 'confirmed'
+  | 'expired'
+  | 'historical';
+
+/** Only visible sightings are readable by non-admins */
+export type ModerationState = 'visible' | 'hidden' | 'pending_review';
 
 export type Sighting = {
   id: string;
@@ -56,21 +70,115 @@ export type Sighting = {
   event_time: string;
   lat: number;
   lng: number;
+  /** Grid size the reporter snapped lat/lng to (0 = exact); see lib/geo/precision */
+  location_precision_m: LocationPrecision;
   activity_type: string;
   notes: string | null;
   media: Array<{ path: string; type: string; thumbPath?: string }>;
   status: SightingStatus;
   validations_count: number;
+  /** Sum of in-range validation weights (role + track record); compared to validation_threshold */
+  validation_score: number;
+  /** Count and weighted score of not_seen / gone / false_report votes */
+  dispute_count: number;
+  dispute_score: number;
+  /** Dispute score reached the verification threshold */
+  is_disputed: boolean;
+  /** Resolved from verification_rules by the database */
+  validation_threshold: number;
+  verified_at: string | null;
+  moderation_state: ModerationState;
+  /** Public flags (reports_flags); 3 or more auto-hides the sighting pending review */
+  flag_count: number;
 };
 
+/** One row per status transition; actor_id is not readable through the API */
+export type SightingStatusChange = {
+  id: string;
+  created_at: string;
+  sighting_id: string;
+  /** null = the sighting was created with to_status */
+  from_status: SightingStatus | null;
+  to_status: SightingStatus;
+  actor_role: ProfileRole | 'system';
+  reason: string | null;
+};
+
+export type ModerationAction = {
+  id: string;
+  created_at: string;
+  sighting_id: string;
+  actor_id: string | null;
+  /** auto_hide is written by the flag trigger (actor_id null) */
+  action: 'hide' | 'restore' | 'delete' | 'auto_hide';
+  reason: string;
+  sighting_snapshot: Sighting | null;
+};
+
+export type AuditAction =
+  | 'profile.created'
+  | 'profile.role_changed'
+  | 'profile.deleted'
+  | 'sighting.status_changed'
+  | 'sighting.moderation_changed'
+  | 'sighting.deleted'
+  | 'invite.created'
+  | 'invite.resent'
+  | 'invite.removed';
+
+/** Append-only; written by triggers, readable by admins only */
+export type AuditEvent = {
+  id: number;
+  occurred_at: string;
+  /** null = system (service role, cron or trigger) */
+  actor_id: string | null;
+  action: AuditAction;
+  target_table: string;
+  /** Row id, or the email for pending_invites */
+  target_id: string;
+  details: Record<string, unknown>;
+};
+
+export type VerificationRule = {
+  id: string;
+  /** null = any activity type */
+  activity_type: string | null;
+  region_name: string | null;
+  /** Postgres polygon text, points as (lng,lat); null = everywhere */
+  region: string | null;
+  threshold: number;
+  media_threshold: number;
+  updated_at: string;
+  updated_by: string | null;
+};
+
+export type FlagReason = 'personal_info' | 'faces_in_media' | 'spam' | 'duplicate' | 'wrong_location';
+
+export type ReportFlag = {
+  id: string;
+  created_at: string;
+  sighting_id: string;
+  reason: FlagReason;
+  details: string | null;
+  device_hash: string;
+  ip_hash: string | null;
+};
+
+/** confirm = seen it; the rest are counter-votes */
+export type ValidationVote = 'confirm' | 'not_seen' | 'gone' | 'false_report';
+
 export type Validation = {
   id: string;
   created_at: string;
   sighting_id: string;
   validator_id: string | null;
+  /** Per-sighting HMAC of the FingerprintJS visitorId, peppered server-side; not readable by anon */
   device_fingerprint: string | null;
   is_within_range: boolean;
-  /** @deprecated legacy; new inserts use device_fingerprint */
+  vote: ValidationVote;
+  /** Set at insert from the validator's role and track record (anonymous devices = 1) */
+  weight: number;
+  /** Per-sighting HMAC of a device secret, peppered server-side (see lib/privacy/hash.ts) */
   validator_hash: string | null;
   /** @deprecated do not store validator coordinates */
   validator_lat: number | null;
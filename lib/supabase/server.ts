@@ -0,0 +1,32 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Server-only Supabase clients for route handlers.
+ * Never import this module from client components.
+ */
+
+export function getAnonClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !key) throw new Error('Missing Supabase anon env');
+  return createClient(url, key);
+}
+
+export function getServiceClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+  return createClient(url, key, { auth: { autoRefreshToken: false, persistSession: false } });
+}
+
+/**
+ * Resolve the signed-in user from session tokens posted by the browser.
+ * Returns null when tokens are missing or invalid.
+ */
+export async function getSessionUser(access_token?: unknown, refresh_token?: unknown) {
+  if (typeof access_token !== 'string' || typeof refresh_token !== 'string') return null;
+  const anon = getAnonClient();
+  const { data: { session }, error } = await anon.auth.setSession({ access_token, refresh_token });
+  if (error || !session?.user) return null;
+  return session.user;
+}
@@ -0,0 +1,18 @@
+import { parse } from 'csv-parse/sync';
+import type { ImportParser } from './types';
+
+/** CSV with a header row; columns become fields as-is (see --map for renaming) */
+export const csvParser: ImportParser = {
+  format: 'csv',
+  extensions: ['csv'],
+  parse(content) {
+    const records: Record<string, string>[] = parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+    });
+    // +2 because CSV is 1-indexed and has header
+    return records.map((fields, i) => ({ ref: `row ${i + 2}`, fields }));
+  },
+};
@@ -0,0 +1,55 @@
+import type { ImportParser, RawRecord } from './types';
+
+type Feature = {
+  type?: unknown;
+  id?: unknown;
+  geometry?: { type?: unknown; coordinates?: unknown } | null;
+  properties?: Record<string, unknown> | null;
+};
+
+// Arrays (e.g. media_urls) are joined with commas like the CSV column
+function toFieldValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map(String).join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function parseFeature(feature: Feature, ref: string): RawRecord {
+  if (!feature || feature.type !== 'Feature') {
+    return { ref, error: 'Not a GeoJSON Feature' };
+  }
+  const geometry = feature.geometry;
+  const coordinates = geometry?.coordinates;
+  if (geometry?.type !== 'Point' || !Array.isArray(coordinates) || coordinates.length < 2) {
+    return { ref, error: `Only Point geometries can be imported (got ${String(geometry?.type ?? 'none')})` };
+  }
+  const [lng, lat] = coordinates.map(Number);
+
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(feature.properties ?? {})) {
+    const text = toFieldValue(value);
+    if (text !== null) fields[key] = text;
+  }
+  if (feature.id !== undefined && fields.id === undefined) {
+    fields.id = String(feature.id);
+  }
+
+  return { ref, fields, position: { lat, lng } };
+}
+
+/** GeoJSON FeatureCollection (or a single Feature) of Points; properties become fields */
+export const geojsonParser: ImportParser = {
+  format: 'geojson',
+  extensions: ['geojson', 'json'],
+  parse(content) {
+    const data = JSON.parse(content) as { type?: unknown; features?: unknown };
+    if (data?.type === 'Feature') {
+      return [parseFeature(data as Feature, 'feature 1')];
+    }
+    if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+      throw new Error('Expected a GeoJSON FeatureCollection');
+    }
+    return (data.features as Feature[]).map((feature, i) => parseFeature(feature, `feature ${i + 1}`));
+  },
+};
@@ -0,0 +1,94 @@
+import type { ImportParser, RawRecord } from './types';
+
+/**
+ * KML Placemarks with a Point (Google My Maps exports, or files from /api/export).
+ * Fields: name, description, id (the Placemark id attribute), timestamp (TimeStamp/when, or
+ * TimeSpan/begin) and every ExtendedData <Data name="…"><value> (SchemaData/SimpleData too).
+ * Only the handful of elements the importer needs are read, so no XML library is involved.
+ */
+
+// Elements may carry a namespace prefix (e.g. kml:Placemark)
+const NS = '(?:[\\w-]+:)?';
+
+function findElements(xml: string, tag: string): Array<{ attributes: string; body: string }> {
+  const pattern = new RegExp(`<${NS}${tag}(\\s[^>]*)?>([\\s\\S]*?)</${NS}${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (m) => ({ attributes: m[1] ?? '', body: m[2] }));
+}
+
+function findText(xml: string, tag: string): string | null {
+  const element = findElements(xml, tag)[0];
+  return element ? decodeText(element.body) : null;
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? decodeEntities(match[2] ?? match[3]) : null;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower] ?? entity;
+  });
+}
+
+/** Element text with entities decoded; CDATA holds raw HTML in My Maps descriptions, which is flattened */
+function decodeText(body: string): string {
+  const parts = body.split(/<!\[CDATA\[([\s\S]*?)\]\]>/);
+  return parts
+    .map((part, i) =>
+      i % 2 === 1
+        ? decodeEntities(part.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''))
+        : decodeEntities(part)
+    )
+    .join('')
+    .trim();
+}
+
+function parsePlacemark(attributes: string, body: string, ref: string): RawRecord {
+  const point = findElements(body, 'Point')[0];
+  const coordinates = point ? findText(point.body, 'coordinates') : null;
+  if (!coordinates) {
+    return { ref, error: 'Only Placemarks with a Point can be imported' };
+  }
+  const [lng, lat] = coordinates.split(/[\s,]+/).map(Number);
+
+  const fields: Record<string, string> = {};
+  for (const data of findElements(body, 'Data')) {
+    const name = getAttribute(data.attributes, 'name');
+    const value = findText(data.body, 'value');
+    if (name && value !== null) fields[name] = value;
+  }
+  for (const data of findElements(body, 'SimpleData')) {
+    const name = getAttribute(data.attributes, 'name');
+    if (name) fields[name] = decodeText(data.body);
+  }
+
+  const name = findText(body, 'name');
+  const description = findText(body, 'description');
+  const id = getAttribute(attributes, 'id');
+  const when = findText(findElements(body, 'TimeStamp')[0]?.body ?? '', 'when')
+    ?? findText(findElements(body, 'TimeSpan')[0]?.body ?? '', 'begin');
+
+  // ExtendedData wins over the generic elements when both are present
+  if (name && fields.name === undefined) fields.name = name;
+  if (description && fields.description === undefined) fields.description = description;
+  if (id && fields.id === undefined) fields.id = id;
+  if (when && fields.timestamp === undefined) fields.timestamp = when;
+
+  return { ref, fields, position: { lat, lng } };
+}
+
+export const kmlParser: ImportParser = {
+  format: 'kml',
+  extensions: ['kml'],
+  parse(content) {
+    const placemarks = findElements(content, 'Placemark');
+    if (placemarks.length === 0 && !/<(?:[\w-]+:)?kml[\s>]/.test(content)) {
+      throw new Error('Expected a KML document');
+    }
+    return placemarks.map(({ attributes, body }, i) => parsePlacemark(attributes, body, `placemark ${i + 1}`));
+  },
+};
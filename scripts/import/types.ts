@@ -0,0 +1,19 @@
+/**
+ * Shared types for the import parsers.
+ * A parser turns a file into flat records (field name → text, plus a position when the format has
+ * real geometry); scripts/import_sightings.ts maps fields to sighting columns, validates and inserts.
+ */
+
+export type ImportFormat = 'csv' | 'geojson' | 'kml';
+
+/** One record from the source file; `ref` locates it for the error report (e.g. "row 5") */
+export type RawRecord =
+  | { ref: string; fields: Record<string, string>; position?: { lat: number; lng: number } }
+  | { ref: string; error: string };
+
+export type ImportParser = {
+  format: ImportFormat;
+  /** File extensions (lowercase, without the dot) detected as this format */
+  extensions: string[];
+  parse(content: string): RawRecord[];
+};
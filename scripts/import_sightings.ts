@@ -1,168 +1,483 @@
 /**
- * CSV Import Script for ICE OUT Sightings
- * 
+ * Import Script for ICE OUT Sightings (CSV, GeoJSON, KML)
+ *
  * Usage:
- *   npx tsx scripts/import_sightings.ts path/to/sightings.csv
- * 
- * CSV Format (expected columns):
- *   - timestamp: ISO 8601 datetime string (e.g., "2024-01-26T14:30:00Z")
- *   - lat: Latitude (number, -90 to 90)
- *   - lng: Longitude (number, -180 to 180)
- *   - activity_type: Type of activity (string, max 64 chars)
- *   - notes: Optional description (string, max 2000 chars)
- *   - media_urls: Optional comma-separated URLs (string)
- * 
+ *   npx tsx scripts/import_sightings.ts path/to/sightings.{csv,geojson,kml} [options]
+ *
+ * Options:
+ *   --format <format>      csv, geojson or kml (default: from the file extension)
+ *   --map <field=source>   Read a field from a differently named column/property, e.g.
+ *                          --map timestamp=Date,activity_type=Category (repeatable)
+ *   --dry-run              Validate and report what would be imported; nothing is written
+ *   --status <status>      Store every row with this status, overriding the file's status field
+ *                          (e.g. historical for archived data)
+ *   --batch-size <n>       Rows per insert request (default 500)
+ *   --error-report <path>  Where to write the JSON error report (default <file>.errors.json)
+ *
+ * Fields (matched case-insensitively; the first alias present wins unless --map says otherwise):
+ *   - timestamp: ISO 8601 datetime (aliases: event_time, time, date, when; KML TimeStamp)
+ *   - lat / lng: coordinates (aliases: latitude / lon, long, longitude; GeoJSON and KML use the Point)
+ *   - activity_type: Type of activity, max 64 chars (aliases: type, category, name)
+ *   - notes: Optional description, max 2000 chars (alias: description)
+ *   - media_urls: Optional comma-separated URLs (alias: media)
+ *   - external_id: Optional stable id from the source system (alias: id)
+ *   - status: Optional sighting status (default unverified)
+ *   - location_precision_m: Optional 0, 100 or 500; fuzzed points are snapped to that grid
+ *
+ * Parsers live in scripts/import/; each turns a file into flat records that go through the same
+ * validation and insert path below.
+ *
+ * Re-running an import is safe: each row gets an import_key (the external id, or a hash of its
+ * content) and rows whose key already exists are skipped.
+ *
  * Environment Variables Required:
  *   - NEXT_PUBLIC_SUPABASE_URL: Your Supabase project URL
  *   - SUPABASE_SERVICE_ROLE_KEY: Service role key (server-side only, bypasses RLS)
+ *   (optional for --dry-run; without them the already-imported check is skipped)
  */
 
-import { createClient } from '@supabase/supabase-js';
-import { parse } from 'csv-parse/sync';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { extname } from 'path';
+import type { SightingStatus } from '@/lib/supabase/browser';
+import { SIGHTING_STATUSES } from '@/lib/sightings/status';
+import { ACTIVITY_TYPE_MAX_LENGTH, NOTES_MAX_LENGTH } from '@/lib/sightings/validate';
+import { isLocationPrecision, snapToGrid, type LocationPrecision } from '@/lib/geo/precision';
+import { MEDIA_EXTENSIONS } from '@/lib/media/buckets';
+import { csvParser } from './import/csv';
+import { geojsonParser } from './import/geojson';
+import { kmlParser } from './import/kml';
+import type { ImportFormat, ImportParser, RawRecord } from './import/types';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const PARSERS: ImportParser[] = [csvParser, geojsonParser, kmlParser];
 
-if (!supabaseUrl || !supabaseServiceKey) {
-  console.error('Error: Missing Supabase environment variables');
-  console.error('Required: NEXT_PUBLIC_SUPABASE_URL (or SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY');
-  process.exit(1);
-}
+const DEFAULT_BATCH_SIZE = 500;
+const MAX_BATCH_SIZE = 1000;
+// Keys go in the query string, so existence checks use smaller chunks
+const KEY_LOOKUP_CHUNK = 100;
 
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+/** MIME type per file extension; formats the app accepts plus GIF from older archives */
+const MIME_BY_EXTENSION: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(MEDIA_EXTENSIONS).map(([type, extension]) => [extension, type])),
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+};
 
-interface CSVRow {
-  timestamp: string;
-  lat: string;
-  lng: string;
-  activity_type: string;
-  notes?: string;
-  media_urls?: string;
-}
+type ImportField =
+  | 'timestamp'
+  | 'lat'
+  | 'lng'
+  | 'activity_type'
+  | 'notes'
+  | 'media_urls'
+  | 'external_id'
+  | 'status'
+  | 'location_precision_m';
 
-async function importSightings(csvPath: string) {
-  console.log(`Reading CSV file: ${csvPath}`);
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  timestamp: ['timestamp', 'event_time', 'time', 'date', 'when'],
+  lat: ['lat', 'latitude'],
+  lng: ['lng', 'lon', 'long', 'longitude'],
+  activity_type: ['activity_type', 'type', 'category', 'name'],
+  notes: ['notes', 'description'],
+  media_urls: ['media_urls', 'media'],
+  external_id: ['external_id', 'id'],
+  status: ['status'],
+  location_precision_m: ['location_precision_m'],
+};
 
-  const fileContent = readFileSync(csvPath, 'utf-8');
+/** A source record with its fields resolved to sighting columns, still unvalidated text */
+type ImportRecord = Partial<Record<ImportField, string>>;
 
-  const records: CSVRow[] = parse(fileContent, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true,
-  });
+type ImportOptions = {
+  format: ImportFormat | null;
+  mapping: Partial<Record<ImportField, string>>;
+  dryRun: boolean;
+  status: SightingStatus | null;
+  batchSize: number;
+  errorReport: string | null;
+};
 
-  console.log(`Found ${records.length} records to import`);
+type SightingRow = {
+  import_key: string;
+  event_time: string;
+  lat: number;
+  lng: number;
+  activity_type: string;
+  notes: string | null;
+  media: Array<{ path: string; type: string }>;
+  location_precision_m: LocationPrecision;
+  status?: SightingStatus;
+};
 
-  const errors: Array<{ row: number; error: string }> = [];
-  let successCount = 0;
+type ImportError = { record: string; import_key?: string; error: string };
 
-  for (let i = 0; i < records.length; i++) {
-    const row = records[i];
-    const rowNum = i + 2; // +2 because CSV is 1-indexed and has header
+type ParsedRow = { ref: string; sighting: SightingRow };
 
-    try {
-      // Validate and parse data
-      const lat = parseFloat(row.lat);
-      const lng = parseFloat(row.lng);
+function parseArgs(argv: string[]): { filePath: string | null; options: ImportOptions } {
+  const options: ImportOptions = {
+    format: null,
+    mapping: {},
+    dryRun: false,
+    status: null,
+    batchSize: DEFAULT_BATCH_SIZE,
+    errorReport: null,
+  };
+  let filePath: string | null = null;
 
-      if (isNaN(lat) || lat < -90 || lat > 90) {
-        throw new Error(`Invalid latitude: ${row.lat}`);
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') {
+      const format = argv[++i];
+      const parser = PARSERS.find((p) => p.format === format);
+      if (!parser) {
+        throw new Error(`--format must be one of: ${PARSERS.map((p) => p.format).join(', ')}`);
       }
-      if (isNaN(lng) || lng < -180 || lng > 180) {
-        throw new Error(`Invalid longitude: ${row.lng}`);
+      options.format = parser.format;
+    } else if (arg === '--map') {
+      for (const pair of (argv[++i] ?? '').split(',')) {
+        const [field, source] = pair.split('=').map((part) => part?.trim());
+        if (!field || !source || !(field in FIELD_ALIASES)) {
+          throw new Error(`--map takes field=source pairs; fields: ${Object.keys(FIELD_ALIASES).join(', ')}`);
+        }
+        options.mapping[field as ImportField] = source;
       }
-
-      const eventTime = new Date(row.timestamp);
-      if (isNaN(eventTime.getTime())) {
-        throw new Error(`Invalid timestamp: ${row.timestamp}`);
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--status') {
+      const status = argv[++i] as SightingStatus;
+      if (!SIGHTING_STATUSES.includes(status)) {
+        throw new Error(`--status must be one of: ${SIGHTING_STATUSES.join(', ')}`);
       }
-
-      if (!row.activity_type || row.activity_type.length > 64) {
-        throw new Error(`Invalid activity_type: ${row.activity_type}`);
+      options.status = status;
+    } else if (arg === '--batch-size') {
+      const size = Number(argv[++i]);
+      if (!Number.isInteger(size) || size < 1 || size > MAX_BATCH_SIZE) {
+        throw new Error(`--batch-size must be between 1 and ${MAX_BATCH_SIZE}`);
       }
+      options.batchSize = size;
+    } else if (arg === '--error-report') {
+      options.errorReport = argv[++i] ?? null;
+      if (!options.errorReport) throw new Error('--error-report needs a path');
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (!filePath) {
+      filePath = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
 
-      if (row.notes && row.notes.length > 2000) {
-        throw new Error(`Notes too long: ${row.notes.length} chars (max 2000)`);
-      }
+  return { filePath, options };
+}
 
-      // Parse media URLs if provided
-      const media: Array<{ path: string; type: string }> = [];
-      if (row.media_urls) {
-        const urls = row.media_urls.split(',').map((url) => url.trim());
-        for (const url of urls) {
-          if (url) {
-            // Extract filename from URL or use a placeholder
-            const fileName = url.split('/').pop() || 'media';
-            const extension = fileName.split('.').pop()?.toLowerCase() || 'jpg';
-            const type = extension.match(/^(jpg|jpeg|png|gif|webp)$/i)
-              ? 'image/jpeg'
-              : extension.match(/^(mp4|webm|mov)$/i)
-              ? 'video/mp4'
-              : 'image/jpeg';
-
-            media.push({
-              path: url, // Store full URL for external media
-              type,
-            });
-          }
-        }
-      }
+function getParser(filePath: string, format: ImportFormat | null): ImportParser {
+  if (format) return PARSERS.find((p) => p.format === format)!;
+  const extension = extname(filePath).slice(1).toLowerCase();
+  const parser = PARSERS.find((p) => p.extensions.includes(extension));
+  if (!parser) {
+    throw new Error(`Cannot tell the format of ${filePath}; pass --format csv, geojson or kml`);
+  }
+  return parser;
+}
+
+/**
+ * Pick each sighting field from a parsed record: an explicit --map source, otherwise the first alias
+ * present (case-insensitive). Coordinates fall back to the record's geometry.
+ */
+function resolveFields(
+  record: Extract<RawRecord, { fields: Record<string, string> }>,
+  mapping: ImportOptions['mapping']
+): ImportRecord {
+  const byLowerName = new Map(Object.entries(record.fields).map(([name, value]) => [name.toLowerCase(), value]));
+  const resolved: ImportRecord = {};
 
-      // Insert into database
-      const { error } = await supabase.from('sightings').insert({
-        event_time: eventTime.toISOString(),
-        lat,
-        lng,
-        activity_type: row.activity_type.trim(),
-        notes: row.notes?.trim() || null,
-        media,
-      });
-
-      if (error) {
-        throw error;
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    const sources = mapping[field] ? [mapping[field]!] : FIELD_ALIASES[field];
+    for (const source of sources) {
+      const value = byLowerName.get(source.toLowerCase());
+      if (value !== undefined && value !== '') {
+        resolved[field] = value;
+        break;
       }
+    }
+  }
+
+  if (record.position && !mapping.lat && !mapping.lng) {
+    resolved.lat = String(record.position.lat);
+    resolved.lng = String(record.position.lng);
+  }
+  return resolved;
+}
+
+/** MIME type from the URL's file extension (query strings and fragments ignored) */
+function detectMediaType(url: string): string | null {
+  let pathname = url;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url.split(/[?#]/)[0];
+  }
+  const extension = pathname.split('/').pop()?.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_BY_EXTENSION[extension] ?? null;
+}
+
+/**
+ * Stable key for dedupe: the source's own id when it has one, otherwise a hash of the fields that
+ * identify a sighting (so re-exported or re-shared copies of the same file collapse)
+ */
+function computeImportKey(record: ImportRecord, sighting: Omit<SightingRow, 'import_key'>): string {
+  const externalId = record.external_id?.trim();
+  if (externalId) return `ext:${externalId}`.slice(0, 200);
+
+  const content = JSON.stringify([
+    sighting.event_time,
+    sighting.lat.toFixed(6),
+    sighting.lng.toFixed(6),
+    sighting.activity_type.toLowerCase(),
+    sighting.notes ?? '',
+  ]);
+  return `sha256:${createHash('sha256').update(content).digest('hex')}`;
+}
+
+/** Undo the apostrophe /api/export puts in front of formula-like text, so exports round-trip */
+function stripFormulaGuard(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Validate one record and build the sighting to insert.
+ * `status` (from --status) overrides the record's own status.
+ */
+function toSightingRow(row: ImportRecord, status: SightingStatus | null): SightingRow {
+  const rawLat = parseFloat(row.lat ?? '');
+  const rawLng = parseFloat(row.lng ?? '');
+
+  if (isNaN(rawLat) || rawLat < -90 || rawLat > 90) {
+    throw new Error(`Invalid latitude: ${row.lat ?? '(missing)'}`);
+  }
+  if (isNaN(rawLng) || rawLng < -180 || rawLng > 180) {
+    throw new Error(`Invalid longitude: ${row.lng ?? '(missing)'}`);
+  }
+
+  const precision = row.location_precision_m?.trim() ? Number(row.location_precision_m) : 0;
+  if (!isLocationPrecision(precision)) {
+    throw new Error(`Invalid location_precision_m: ${row.location_precision_m}`);
+  }
+  // Exported fuzzed points are already on the grid (snapping is idempotent); other sources get snapped here
+  const { lat, lng } = snapToGrid(rawLat, rawLng, precision);
+
+  const rowStatus = row.status?.trim().toLowerCase() as SightingStatus | undefined;
+  if (rowStatus && !SIGHTING_STATUSES.includes(rowStatus)) {
+    throw new Error(`Invalid status: ${row.status}`);
+  }
+  const storedStatus = status ?? rowStatus ?? null;
+
+  const eventTime = new Date(row.timestamp ?? '');
+  if (isNaN(eventTime.getTime())) {
+    throw new Error(`Invalid timestamp: ${row.timestamp ?? '(missing)'}`);
+  }
+
+  const activityType = stripFormulaGuard(row.activity_type?.trim() ?? '');
+  if (!activityType || activityType.length > ACTIVITY_TYPE_MAX_LENGTH) {
+    throw new Error(`Invalid activity_type: ${row.activity_type ?? '(missing)'}`);
+  }
+
+  const notes = stripFormulaGuard(row.notes?.trim() ?? '') || null;
+  if (notes && notes.length > NOTES_MAX_LENGTH) {
+    throw new Error(`Notes too long: ${notes.length} chars (max ${NOTES_MAX_LENGTH})`);
+  }
+
+  // External media is stored as its full URL
+  const media: Array<{ path: string; type: string }> = [];
+  for (const url of (row.media_urls ?? '').split(',').map((u) => u.trim())) {
+    if (!url) continue;
+    const type = detectMediaType(url);
+    if (!type) {
+      throw new Error(`Unsupported media type: ${url}`);
+    }
+    media.push({ path: url, type });
+  }
+
+  const sighting = {
+    event_time: eventTime.toISOString(),
+    lat,
+    lng,
+    activity_type: activityType,
+    notes,
+    media,
+    location_precision_m: precision,
+    ...(storedStatus ? { status: storedStatus } : {}),
+  };
+  return { import_key: computeImportKey(row, sighting), ...sighting };
+}
+
+/** Keys (of those given) that are already in the database */
+async function findExistingKeys(supabase: SupabaseClient, keys: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < keys.length; i += KEY_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('sightings')
+      .select('import_key')
+      .in('import_key', keys.slice(i, i + KEY_LOOKUP_CHUNK));
+    if (error) throw error;
+    for (const row of data ?? []) existing.add(row.import_key as string);
+  }
+  return existing;
+}
+
+/**
+ * Insert a batch, skipping keys that already exist. Returns how many rows were new.
+ * A failed batch is retried row by row so the error report names the offending rows.
+ */
+async function insertBatch(
+  supabase: SupabaseClient,
+  batch: ParsedRow[],
+  errors: ImportError[]
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('sightings')
+    .upsert(batch.map((b) => b.sighting), { onConflict: 'import_key', ignoreDuplicates: true })
+    .select('id');
+  if (!error) return data?.length ?? 0;
+
+  let inserted = 0;
+  for (const { ref, sighting } of batch) {
+    const { data: rowData, error: rowError } = await supabase
+      .from('sightings')
+      .upsert(sighting, { onConflict: 'import_key', ignoreDuplicates: true })
+      .select('id');
+    if (rowError) {
+      errors.push({ record: ref, import_key: sighting.import_key, error: rowError.message });
+    } else {
+      inserted += rowData?.length ?? 0;
+    }
+  }
+  return inserted;
+}
+
+async function importSightings(filePath: string, options: ImportOptions) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const hasCredentials = Boolean(supabaseUrl && supabaseServiceKey);
+
+  if (!hasCredentials && !options.dryRun) {
+    console.error('Error: Missing Supabase environment variables');
+    console.error('Required: NEXT_PUBLIC_SUPABASE_URL (or SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const supabase = hasCredentials
+    ? createClient(supabaseUrl!, supabaseServiceKey!, { auth: { autoRefreshToken: false, persistSession: false } })
+    : null;
+
+  const parser = getParser(filePath, options.format);
+  console.log(`Reading ${parser.format.toUpperCase()} file: ${filePath}${options.dryRun ? ' (dry run)' : ''}`);
+
+  const records = parser.parse(readFileSync(filePath, 'utf-8'));
+
+  console.log(`Found ${records.length} records to import`);
 
-      successCount++;
-      if (successCount % 10 === 0) {
-        console.log(`  Imported ${successCount}/${records.length}...`);
+  const errors: ImportError[] = [];
+  const rows: ParsedRow[] = [];
+  const seenKeys = new Set<string>();
+  let duplicateCount = 0;
+
+  for (const record of records) {
+    if ('error' in record) {
+      errors.push({ record: record.ref, error: record.error });
+      continue;
+    }
+    try {
+      const sighting = toSightingRow(resolveFields(record, options.mapping), options.status);
+      if (seenKeys.has(sighting.import_key)) {
+        duplicateCount++;
+        continue;
       }
+      seenKeys.add(sighting.import_key);
+      rows.push({ ref: record.ref, sighting });
     } catch (err) {
-      errors.push({
-        row: rowNum,
-        error: err instanceof Error ? err.message : String(err),
-      });
-      console.error(`  Error on row ${rowNum}:`, err);
+      errors.push({ record: record.ref, error: err instanceof Error ? err.message : String(err) });
     }
   }
 
-  console.log('\n=== Import Summary ===');
-  console.log(`Success: ${successCount}/${records.length}`);
+  let insertedCount = 0;
+  let skippedCount = 0;
+
+  if (options.dryRun) {
+    if (supabase) {
+      const existing = await findExistingKeys(supabase, rows.map((r) => r.sighting.import_key));
+      skippedCount = existing.size;
+    } else {
+      console.log('  No Supabase credentials; not checking for rows imported earlier');
+    }
+    insertedCount = rows.length - skippedCount;
+  } else {
+    for (let i = 0; i < rows.length; i += options.batchSize) {
+      const batch = rows.slice(i, i + options.batchSize);
+      const errorsBefore = errors.length;
+      const inserted = await insertBatch(supabase!, batch, errors);
+      insertedCount += inserted;
+      skippedCount += batch.length - inserted - (errors.length - errorsBefore);
+      console.log(`  Processed ${Math.min(i + batch.length, rows.length)}/${rows.length}...`);
+    }
+  }
+
+  console.log(`\n=== Import Summary${options.dryRun ? ' (dry run, nothing written)' : ''} ===`);
+  console.log(`${options.dryRun ? 'Would import' : 'Imported'}: ${insertedCount}/${records.length}`);
+  console.log(`Already imported (skipped): ${skippedCount}`);
+  console.log(`Duplicates within file (skipped): ${duplicateCount}`);
   console.log(`Errors: ${errors.length}`);
 
   if (errors.length > 0) {
-    console.log('\n=== Errors ===');
-    errors.forEach(({ row, error }) => {
-      console.log(`Row ${row}: ${error}`);
-    });
+    // Insert failures are appended after validation errors; report both in file order
+    const order = new Map(records.map((record, i) => [record.ref, i]));
+    errors.sort((a, b) => (order.get(a.record) ?? 0) - (order.get(b.record) ?? 0));
+
+    const reportPath = options.errorReport ?? `${filePath}.errors.json`;
+    writeFileSync(
+      reportPath,
+      JSON.stringify(
+        {
+          file: filePath,
+          format: parser.format,
+          generated_at: new Date().toISOString(),
+          dry_run: options.dryRun,
+          errors,
+        },
+        null,
+        2
+      )
+    );
+    console.log(`\nError report written to ${reportPath}`);
   }
 
-  return { successCount, errorCount: errors.length };
+  return { insertedCount, skippedCount, duplicateCount, errorCount: errors.length };
 }
 
 // Main execution
-const csvPath = process.argv[2];
+let args: ReturnType<typeof parseArgs>;
+try {
+  args = parseArgs(process.argv.slice(2));
+} catch (err) {
+  console.error(`Error: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
 
-if (!csvPath) {
-  console.error('Usage: npx tsx scripts/import_sightings.ts <path-to-csv>');
+if (!args.filePath) {
+  console.error(
+    'Usage: npx tsx scripts/import_sightings.ts <path-to-file> [--format csv|geojson|kml] [--map <field=source,...>] [--dry-run] [--status <status>] [--batch-size <n>] [--error-report <path>]'
+  );
   console.error('\nExample CSV format:');
   console.error('timestamp,lat,lng,activity_type,notes,media_urls');
   console.error('2024-01-26T14:30:00Z,40.7128,-74.0060,Vehicle stop,"ICE vehicle observed",https://example.com/photo.jpg');
+  console.error('\nGeoJSON: a FeatureCollection of Point features with those fields as properties.');
+  console.error('KML: Placemarks with a Point; name, description, TimeStamp and ExtendedData are read.');
   process.exit(1);
 }
 
-importSightings(csvPath)
+importSightings(args.filePath, args.options)
   .then(() => {
     console.log('\nImport completed!');
     process.exit(0);
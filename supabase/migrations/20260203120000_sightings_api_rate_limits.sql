@@ -0,0 +1,64 @@
+-- Server-side report submission via POST /api/sightings
+-- - rate_limit_events: hashed keys (device id / IP HMAC'd with IDENTITY_PEPPER), never raw identifiers
+-- - consume_rate_limit(): sliding-window counter (hits in the last p_window_seconds), service role only
+-- - sightings_insert_anon dropped: browser inserts go through the API route (service role bypasses RLS)
+
+-- 1. Rate limit events
+create table if not exists public.rate_limit_events (
+  id bigserial primary key,
+  bucket text not null,
+  key_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_events_lookup_idx
+  on public.rate_limit_events (bucket, key_hash, created_at desc);
+
+-- No policies: only the service role (which bypasses RLS) can read or write
+alter table public.rate_limit_events enable row level security;
+
+-- 2. consume_rate_limit: record a hit and return whether the key is still within p_max per window
+create or replace function public.consume_rate_limit(
+  p_bucket text,
+  p_key_hash text,
+  p_window_seconds integer,
+  p_max integer
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  -- Serialize concurrent hits for the same key so the count is accurate
+  perform pg_advisory_xact_lock(hashtext(p_bucket || ':' || p_key_hash));
+
+  delete from public.rate_limit_events
+   where bucket = p_bucket
+     and key_hash = p_key_hash
+     and created_at < now() - make_interval(secs => p_window_seconds);
+
+  select count(*)::int
+    into v_count
+    from public.rate_limit_events
+   where bucket = p_bucket
+     and key_hash = p_key_hash;
+
+  if v_count >= p_max then
+    return false;
+  end if;
+
+  insert into public.rate_limit_events (bucket, key_hash)
+  values (p_bucket, p_key_hash);
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(text, text, integer, integer) from public, anon, authenticated;
+grant execute on function public.consume_rate_limit(text, text, integer, integer) to service_role;
+
+-- 3. Close direct anon inserts: reports must go through /api/sightings
+drop policy if exists "sightings_insert_anon" on public.sightings;
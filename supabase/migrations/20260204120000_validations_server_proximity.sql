@@ -0,0 +1,9 @@
+-- Server-enforced proximity for validations
+-- - Validations are written by POST /api/validations (service role), which computes
+--   is_within_range from the validator's coordinates and discards them
+-- - validations_insert_anon dropped so clients cannot insert is_within_range themselves
+
+drop policy if exists "validations_insert_anon" on public.validations;
+
+comment on column public.validations.is_within_range is
+  'Computed server-side by /api/validations; validator coordinates are never stored.';
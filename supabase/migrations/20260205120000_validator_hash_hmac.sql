@@ -0,0 +1,7 @@
+-- Keyed validator hashes
+-- - validator_hash is now HMAC-SHA-256(IDENTITY_PEPPER, sighting_id:client_hash), 64 hex chars,
+--   written by /api/validations; client_hash is an HMAC of a per-device secret (lib/privacy/hash.ts)
+-- - Legacy rows used a 32-bit hash + timestamp that never repeated, so they cannot collide with new values
+
+comment on column public.validations.validator_hash is
+  'Per-sighting keyed device hash (HMAC-SHA-256, peppered server-side). Unique per sighting.';
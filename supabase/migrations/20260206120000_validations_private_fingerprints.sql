@@ -0,0 +1,33 @@
+-- Stop exposing device fingerprints
+-- - device_fingerprint now holds a per-sighting HMAC of the FingerprintJS visitorId, peppered server-side
+-- - Existing raw visitorIds are hashed in place with the sighting id so they cannot be linked across sightings
+-- - Anon/authenticated can no longer select from validations; validation_counts exposes aggregates only
+
+-- 1. Hash legacy raw fingerprints (anything that is not already a 64-char hex digest)
+update public.validations
+   set device_fingerprint = encode(digest(sighting_id::text || ':' || device_fingerprint, 'sha256'), 'hex')
+ where device_fingerprint is not null
+   and device_fingerprint !~ '^[0-9a-f]{64}$';
+
+-- 2. Replace the public read policy: admins only
+drop policy if exists "validations_read_anon" on public.validations;
+
+drop policy if exists "validations_select_admin" on public.validations;
+create policy "validations_select_admin"
+  on public.validations
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- 3. Aggregate counts per sighting (view runs as owner, so it is not limited by the policy above)
+create or replace view public.validation_counts as
+  select v.sighting_id,
+         count(*)::int as validations_count,
+         count(*) filter (where v.is_within_range)::int as within_range_count,
+         max(v.created_at) as last_validated_at
+    from public.validations v
+   group by v.sighting_id;
+
+grant select on public.validation_counts to anon, authenticated;
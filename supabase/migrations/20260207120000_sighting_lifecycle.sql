@@ -0,0 +1,109 @@
+-- Sighting status lifecycle owned by the database
+-- - unverified → verified: validation threshold reached (trigger)
+-- - verified → active: corroborated again after verification (trigger)
+-- - any live status → expired (never verified) / historical (verified or confirmed) after 24h (pg_cron job)
+-- - verified_at: when the sighting first reached the threshold
+
+-- 1. Statuses + verified_at
+alter table public.sightings
+  add column if not exists verified_at timestamptz;
+
+alter table public.sightings
+  drop constraint if exists sightings_status_chk;
+alter table public.sightings
+  add constraint sightings_status_chk
+  check (status in ('unverified', 'verified', 'active', 'confirmed', 'expired', 'historical'));
+
+-- 2. Trigger: recompute validations_count + status; never touch confirmed or aged-out rows
+create or replace function public.recompute_sighting_validations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sighting_id uuid;
+  v_count integer;
+  v_media_len integer;
+  v_current_status text;
+  v_verified_at timestamptz;
+  v_threshold_met boolean;
+  v_corroborated boolean;
+begin
+  v_sighting_id := coalesce(new.sighting_id, old.sighting_id);
+
+  select s.status, s.verified_at, jsonb_array_length(s.media)::int
+    into v_current_status, v_verified_at, v_media_len
+    from public.sightings s
+   where s.id = v_sighting_id;
+
+  if v_current_status in ('confirmed', 'expired', 'historical') then
+    return null;
+  end if;
+
+  select count(*)::int
+    into v_count
+    from public.validations
+   where sighting_id = v_sighting_id;
+
+  v_threshold_met := v_count >= 3 or (v_media_len > 0 and v_count >= 2);
+
+  -- Active = at least one validation arrived after the sighting was verified
+  v_corroborated := v_verified_at is not null and exists (
+    select 1 from public.validations
+     where sighting_id = v_sighting_id
+       and created_at > v_verified_at
+  );
+
+  update public.sightings
+     set validations_count = v_count,
+         status = case
+           when v_threshold_met and v_corroborated then 'active'
+           when v_threshold_met then 'verified'
+           else 'unverified'
+         end,
+         verified_at = case when v_threshold_met then coalesce(verified_at, now()) else null end
+   where id = v_sighting_id
+     and status not in ('confirmed', 'expired', 'historical');
+
+  return null;
+end;
+$$;
+
+-- 3. Time-based transitions: age out sightings older than p_max_age
+create or replace function public.advance_sighting_lifecycle(p_max_age interval default interval '24 hours')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated integer;
+begin
+  update public.sightings
+     set status = case when status = 'unverified' then 'expired' else 'historical' end
+   where status in ('unverified', 'verified', 'active', 'confirmed')
+     and event_time < now() - p_max_age;
+
+  get diagnostics v_updated = row_count;
+  return v_updated;
+end;
+$$;
+
+revoke execute on function public.advance_sighting_lifecycle(interval) from public, anon, authenticated;
+
+-- 4. Schedule every 5 minutes (pg_cron: enable under Database → Extensions if this fails)
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'advance-sighting-lifecycle',
+  '*/5 * * * *',
+  $$select public.advance_sighting_lifecycle()$$
+);
+
+-- 5. Backfill existing rows
+update public.sightings
+   set verified_at = coalesce(verified_at, created_at)
+ where status in ('verified', 'active', 'confirmed');
+
+select public.advance_sighting_lifecycle();
@@ -0,0 +1,216 @@
+-- Configurable verification thresholds
+-- - verification_rules: threshold / media_threshold per activity type and optional region polygon
+--   (most specific rule wins: region + activity > region > activity > global default)
+-- - sightings.validation_threshold: resolved threshold, kept current by triggers so the UI reads it directly
+-- - refresh_sighting_validations(): shared recompute used by the validations trigger and rule changes
+-- - Anyone can read rules; only admins can edit them
+
+-- 1. Rules table
+create table if not exists public.verification_rules (
+  id uuid primary key default gen_random_uuid(),
+  activity_type text,
+  region_name text,
+  -- Native polygon with points as (lng, lat); null = everywhere
+  region polygon,
+  threshold integer not null default 3,
+  media_threshold integer not null default 2,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references auth.users(id) on delete set null,
+  constraint verification_rules_threshold_chk check (threshold between 1 and 50),
+  constraint verification_rules_media_threshold_chk check (media_threshold between 1 and 50),
+  constraint verification_rules_activity_type_len_chk check (activity_type is null or char_length(activity_type) between 1 and 64),
+  constraint verification_rules_region_name_chk check (region is null or char_length(coalesce(region_name, '')) between 1 and 64)
+);
+
+-- One global default rule
+create unique index if not exists verification_rules_default_idx
+  on public.verification_rules ((true))
+  where activity_type is null and region is null;
+
+insert into public.verification_rules (activity_type, region, threshold, media_threshold)
+values (null, null, 3, 2)
+on conflict do nothing;
+
+create or replace function public.touch_verification_rule()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  new.updated_by := auth.uid();
+  return new;
+end;
+$$;
+
+drop trigger if exists verification_rules_before_write_touch on public.verification_rules;
+create trigger verification_rules_before_write_touch
+before insert or update on public.verification_rules
+for each row execute function public.touch_verification_rule();
+
+-- 2. Resolve the threshold for a sighting
+create or replace function public.resolve_verification_threshold(
+  p_activity_type text,
+  p_lat double precision,
+  p_lng double precision,
+  p_has_media boolean
+)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select case when p_has_media then r.media_threshold else r.threshold end
+        from public.verification_rules r
+       where (r.activity_type is null or lower(r.activity_type) = lower(p_activity_type))
+         and (r.region is null or point(p_lng, p_lat) <@ r.region)
+       order by (r.region is not null) desc, (r.activity_type is not null) desc, r.updated_at desc
+       limit 1
+    ),
+    case when p_has_media then 2 else 3 end
+  );
+$$;
+
+-- 3. Sightings: resolved threshold
+alter table public.sightings
+  add column if not exists validation_threshold integer not null default 3;
+
+create or replace function public.set_sighting_validation_threshold()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.validation_threshold := public.resolve_verification_threshold(
+    new.activity_type, new.lat, new.lng, jsonb_array_length(new.media) > 0
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists sightings_before_insert_threshold on public.sightings;
+create trigger sightings_before_insert_threshold
+before insert on public.sightings
+for each row execute function public.set_sighting_validation_threshold();
+
+-- 4. Shared recompute: validations_count, validation_threshold, status, verified_at
+create or replace function public.refresh_sighting_validations(p_sighting_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sighting public.sightings%rowtype;
+  v_count integer;
+  v_threshold integer;
+  v_threshold_met boolean;
+  v_corroborated boolean;
+begin
+  select * into v_sighting
+    from public.sightings
+   where id = p_sighting_id;
+
+  if not found or v_sighting.status in ('confirmed', 'expired', 'historical') then
+    return;
+  end if;
+
+  select count(*)::int
+    into v_count
+    from public.validations
+   where sighting_id = p_sighting_id;
+
+  v_threshold := public.resolve_verification_threshold(
+    v_sighting.activity_type, v_sighting.lat, v_sighting.lng, jsonb_array_length(v_sighting.media) > 0
+  );
+  v_threshold_met := v_count >= v_threshold;
+
+  -- Active = at least one validation arrived after the sighting was verified
+  v_corroborated := v_sighting.verified_at is not null and exists (
+    select 1 from public.validations
+     where sighting_id = p_sighting_id
+       and created_at > v_sighting.verified_at
+  );
+
+  update public.sightings
+     set validations_count = v_count,
+         validation_threshold = v_threshold,
+         status = case
+           when v_threshold_met and v_corroborated then 'active'
+           when v_threshold_met then 'verified'
+           else 'unverified'
+         end,
+         verified_at = case when v_threshold_met then coalesce(verified_at, now()) else null end
+   where id = p_sighting_id
+     and status not in ('confirmed', 'expired', 'historical');
+end;
+$$;
+
+revoke execute on function public.refresh_sighting_validations(uuid) from public, anon, authenticated;
+
+create or replace function public.recompute_sighting_validations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_sighting_validations(coalesce(new.sighting_id, old.sighting_id));
+  return null;
+end;
+$$;
+
+-- 5. Rule changes: re-resolve thresholds for live sightings
+create or replace function public.refresh_live_sighting_thresholds()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  for v_id in
+    select id from public.sightings where status in ('unverified', 'verified', 'active')
+  loop
+    perform public.refresh_sighting_validations(v_id);
+  end loop;
+  return null;
+end;
+$$;
+
+drop trigger if exists verification_rules_after_change_refresh on public.verification_rules;
+create trigger verification_rules_after_change_refresh
+after insert or update or delete on public.verification_rules
+for each statement execute function public.refresh_live_sighting_thresholds();
+
+-- 6. RLS: public read, admin write
+alter table public.verification_rules enable row level security;
+
+drop policy if exists "verification_rules_read_anon" on public.verification_rules;
+create policy "verification_rules_read_anon"
+  on public.verification_rules
+  for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "verification_rules_write_admin" on public.verification_rules;
+create policy "verification_rules_write_admin"
+  on public.verification_rules
+  for all
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  )
+  with check (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- 7. Backfill thresholds for existing sightings
+update public.sightings
+   set validation_threshold = public.resolve_verification_threshold(
+     activity_type, lat, lng, jsonb_array_length(media) > 0
+   );
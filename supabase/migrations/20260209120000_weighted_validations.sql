@@ -0,0 +1,138 @@
+-- Weighted validations
+-- - validations.weight: snapshot at insert time from the validator's role and track record
+--   (anonymous devices = 1.0; trusted/admin = 2.0; signed-in validators scaled 0.5x–1.5x by history)
+-- - sightings.validation_score: sum of in-range weights; promotion compares it to validation_threshold
+
+-- 1. Columns
+alter table public.validations
+  add column if not exists weight numeric(4, 2) not null default 1.0;
+
+alter table public.sightings
+  add column if not exists validation_score numeric(6, 2) not null default 0;
+
+-- 2. Weight for a validator
+-- Track record: past validations on sightings that went on to be verified or confirmed count for,
+-- validations on sightings that expired without verification count against.
+create or replace function public.validation_weight(p_validator_id uuid)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_base numeric;
+  v_good integer;
+  v_bad integer;
+  v_factor numeric;
+begin
+  if p_validator_id is null then
+    return 1.0;
+  end if;
+
+  select p.role into v_role
+    from public.profiles p
+   where p.id = p_validator_id;
+
+  v_base := case when v_role in ('trusted', 'admin') then 2.0 else 1.0 end;
+
+  select count(*) filter (where s.verified_at is not null or s.status = 'confirmed')::int,
+         count(*) filter (where s.status = 'expired')::int
+    into v_good, v_bad
+    from public.validations v
+    join public.sightings s on s.id = v.sighting_id
+   where v.validator_id = p_validator_id;
+
+  v_factor := 1.0 + 0.1 * least(v_good, 5) - 0.2 * least(v_bad, 5);
+  return round(v_base * greatest(0.5, least(1.5, v_factor)), 2);
+end;
+$$;
+
+create or replace function public.set_validation_weight()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.weight := public.validation_weight(new.validator_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists validations_before_insert_weight on public.validations;
+create trigger validations_before_insert_weight
+before insert on public.validations
+for each row execute function public.set_validation_weight();
+
+-- 3. Shared recompute: promote on weighted score instead of count(*)
+create or replace function public.refresh_sighting_validations(p_sighting_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sighting public.sightings%rowtype;
+  v_count integer;
+  v_score numeric;
+  v_threshold integer;
+  v_threshold_met boolean;
+  v_corroborated boolean;
+begin
+  select * into v_sighting
+    from public.sightings
+   where id = p_sighting_id;
+
+  if not found or v_sighting.status in ('confirmed', 'expired', 'historical') then
+    return;
+  end if;
+
+  select count(*)::int,
+         coalesce(sum(weight) filter (where is_within_range), 0)
+    into v_count, v_score
+    from public.validations
+   where sighting_id = p_sighting_id;
+
+  v_threshold := public.resolve_verification_threshold(
+    v_sighting.activity_type, v_sighting.lat, v_sighting.lng, jsonb_array_length(v_sighting.media) > 0
+  );
+  v_threshold_met := v_score >= v_threshold;
+
+  -- Active = at least one validation arrived after the sighting was verified
+  v_corroborated := v_sighting.verified_at is not null and exists (
+    select 1 from public.validations
+     where sighting_id = p_sighting_id
+       and created_at > v_sighting.verified_at
+  );
+
+  update public.sightings
+     set validations_count = v_count,
+         validation_score = v_score,
+         validation_threshold = v_threshold,
+         status = case
+           when v_threshold_met and v_corroborated then 'active'
+           when v_threshold_met then 'verified'
+           else 'unverified'
+         end,
+         verified_at = case when v_threshold_met then coalesce(verified_at, now()) else null end
+   where id = p_sighting_id
+     and status not in ('confirmed', 'expired', 'historical');
+end;
+$$;
+
+-- 4. Backfill weights and scores
+update public.validations
+   set weight = public.validation_weight(validator_id)
+ where validator_id is not null;
+
+update public.sightings s
+   set validation_score = coalesce((
+     select sum(v.weight) from public.validations v
+      where v.sighting_id = s.id and v.is_within_range
+   ), 0);
+
+select public.refresh_sighting_validations(id)
+  from public.sightings
+ where status in ('unverified', 'verified', 'active');
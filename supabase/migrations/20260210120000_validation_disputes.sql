@@ -0,0 +1,137 @@
+-- Counter-validations ("not seen", "gone", "false report")
+-- - validations.vote: confirm | not_seen | gone | false_report (one vote per device per sighting, either way)
+-- - sightings.dispute_count / dispute_score: tallies of counter-votes (weighted like confirmations)
+-- - Promotion uses confirm score minus dispute score; is_disputed when the dispute score reaches the threshold
+-- - Counts are kept current for confirmed/aged-out rows too, but their status is never changed here
+
+-- 1. Columns
+alter table public.validations
+  add column if not exists vote text not null default 'confirm';
+
+alter table public.validations
+  drop constraint if exists validations_vote_chk;
+alter table public.validations
+  add constraint validations_vote_chk
+  check (vote in ('confirm', 'not_seen', 'gone', 'false_report'));
+
+alter table public.sightings
+  add column if not exists dispute_count integer not null default 0,
+  add column if not exists dispute_score numeric(6, 2) not null default 0,
+  add column if not exists is_disputed boolean not null default false;
+
+create index if not exists sightings_is_disputed_idx on public.sightings (is_disputed) where is_disputed;
+
+-- 2. Track record: a counter-vote is right when the sighting expired, wrong when it was verified
+create or replace function public.validation_weight(p_validator_id uuid)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_role text;
+  v_base numeric;
+  v_good integer;
+  v_bad integer;
+  v_factor numeric;
+begin
+  if p_validator_id is null then
+    return 1.0;
+  end if;
+
+  select p.role into v_role
+    from public.profiles p
+   where p.id = p_validator_id;
+
+  v_base := case when v_role in ('trusted', 'admin') then 2.0 else 1.0 end;
+
+  select count(*) filter (
+           where (v.vote = 'confirm' and (s.verified_at is not null or s.status = 'confirmed'))
+              or (v.vote <> 'confirm' and s.status = 'expired')
+         )::int,
+         count(*) filter (
+           where (v.vote = 'confirm' and s.status = 'expired')
+              or (v.vote <> 'confirm' and (s.verified_at is not null or s.status = 'confirmed'))
+         )::int
+    into v_good, v_bad
+    from public.validations v
+    join public.sightings s on s.id = v.sighting_id
+   where v.validator_id = p_validator_id;
+
+  v_factor := 1.0 + 0.1 * least(v_good, 5) - 0.2 * least(v_bad, 5);
+  return round(v_base * greatest(0.5, least(1.5, v_factor)), 2);
+end;
+$$;
+
+-- 3. Shared recompute with both tallies
+create or replace function public.refresh_sighting_validations(p_sighting_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sighting public.sightings%rowtype;
+  v_count integer;
+  v_score numeric;
+  v_dispute_count integer;
+  v_dispute_score numeric;
+  v_threshold integer;
+  v_threshold_met boolean;
+  v_corroborated boolean;
+  v_locked boolean;
+begin
+  select * into v_sighting
+    from public.sightings
+   where id = p_sighting_id;
+
+  if not found then
+    return;
+  end if;
+
+  -- Confirmed and aged-out sightings keep their status; tallies still update
+  v_locked := v_sighting.status in ('confirmed', 'expired', 'historical');
+
+  select count(*) filter (where vote = 'confirm')::int,
+         coalesce(sum(weight) filter (where vote = 'confirm' and is_within_range), 0),
+         count(*) filter (where vote <> 'confirm')::int,
+         coalesce(sum(weight) filter (where vote <> 'confirm' and is_within_range), 0)
+    into v_count, v_score, v_dispute_count, v_dispute_score
+    from public.validations
+   where sighting_id = p_sighting_id;
+
+  v_threshold := public.resolve_verification_threshold(
+    v_sighting.activity_type, v_sighting.lat, v_sighting.lng, jsonb_array_length(v_sighting.media) > 0
+  );
+  v_threshold_met := v_score - v_dispute_score >= v_threshold;
+
+  -- Active = at least one confirmation arrived after the sighting was verified
+  v_corroborated := v_sighting.verified_at is not null and exists (
+    select 1 from public.validations
+     where sighting_id = p_sighting_id
+       and vote = 'confirm'
+       and created_at > v_sighting.verified_at
+  );
+
+  update public.sightings
+     set validations_count = v_count,
+         validation_score = v_score,
+         dispute_count = v_dispute_count,
+         dispute_score = v_dispute_score,
+         is_disputed = v_dispute_score >= v_threshold,
+         validation_threshold = v_threshold,
+         status = case
+           when v_locked then status
+           when v_threshold_met and v_corroborated then 'active'
+           when v_threshold_met then 'verified'
+           else 'unverified'
+         end,
+         verified_at = case
+           when v_locked then verified_at
+           when v_threshold_met then coalesce(verified_at, now())
+           else null
+         end
+   where id = p_sighting_id;
+end;
+$$;
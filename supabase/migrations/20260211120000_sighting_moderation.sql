@@ -0,0 +1,125 @@
+-- Moderation: hide, restore and delete sightings with a required reason
+-- - sightings.moderation_state: visible | hidden | pending_review; only visible rows are readable by non-admins
+-- - moderation_actions: audit trail of who did what and why (delete keeps a snapshot of the row)
+-- - moderate_sighting(): admin-only RPC; broadcasts on the "sightings-moderation" realtime topic so
+--   open maps drop hidden/deleted markers (RLS stops postgres_changes from reaching anon clients)
+
+-- 1. Moderation state
+alter table public.sightings
+  add column if not exists moderation_state text not null default 'visible';
+
+alter table public.sightings
+  drop constraint if exists sightings_moderation_state_chk;
+alter table public.sightings
+  add constraint sightings_moderation_state_chk
+  check (moderation_state in ('visible', 'hidden', 'pending_review'));
+
+create index if not exists sightings_moderation_state_idx
+  on public.sightings (moderation_state)
+  where moderation_state <> 'visible';
+
+-- 2. Read policy: hidden rows are admin-only
+drop policy if exists "sightings_read_anon" on public.sightings;
+create policy "sightings_read_anon"
+  on public.sightings
+  for select
+  to anon, authenticated
+  using (
+    moderation_state = 'visible'
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- 3. Audit trail
+create table if not exists public.moderation_actions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  -- No FK: the trail must outlive deleted sightings
+  sighting_id uuid not null,
+  actor_id uuid references auth.users(id) on delete set null,
+  action text not null,
+  reason text not null,
+  sighting_snapshot jsonb,
+  constraint moderation_actions_action_chk check (action in ('hide', 'restore', 'delete')),
+  constraint moderation_actions_reason_len_chk check (char_length(reason) between 3 and 500)
+);
+
+create index if not exists moderation_actions_sighting_id_idx on public.moderation_actions (sighting_id);
+create index if not exists moderation_actions_created_at_idx on public.moderation_actions (created_at desc);
+
+alter table public.moderation_actions enable row level security;
+
+-- Admins can read; writes only happen through moderate_sighting()
+create policy "moderation_actions_select_admin"
+  on public.moderation_actions
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- 4. RPC
+create or replace function public.moderate_sighting(
+  p_sighting_id uuid,
+  p_action text,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := trim(coalesce(p_reason, ''));
+  v_sighting public.sightings%rowtype;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Admin only' using errcode = '42501';
+  end if;
+
+  if p_action not in ('hide', 'restore', 'delete') then
+    raise exception 'Unknown moderation action: %', p_action using errcode = '22023';
+  end if;
+
+  if char_length(v_reason) < 3 then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  select * into v_sighting
+    from public.sightings
+   where id = p_sighting_id
+   for update;
+
+  if not found then
+    raise exception 'Sighting not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.moderation_actions (sighting_id, actor_id, action, reason, sighting_snapshot)
+  values (
+    p_sighting_id,
+    auth.uid(),
+    p_action,
+    v_reason,
+    case when p_action = 'delete' then to_jsonb(v_sighting) end
+  );
+
+  if p_action = 'delete' then
+    delete from public.sightings where id = p_sighting_id;
+  else
+    update public.sightings
+       set moderation_state = case when p_action = 'hide' then 'hidden' else 'visible' end
+     where id = p_sighting_id;
+  end if;
+
+  if p_action in ('hide', 'delete') then
+    perform realtime.send(
+      jsonb_build_object('id', p_sighting_id, 'action', p_action),
+      'moderation',
+      'sightings-moderation',
+      false
+    );
+  end if;
+end;
+$$;
+
+revoke execute on function public.moderate_sighting(uuid, text, text) from public, anon;
+grant execute on function public.moderate_sighting(uuid, text, text) to authenticated;
@@ -0,0 +1,181 @@
+-- Public "flag this report" flow
+-- - reports_flags: anyone can flag a visible sighting once per device (device_hash = per-sighting HMAC from the browser)
+-- - sightings.flag_count: kept current by trigger; at 3 flags a visible sighting moves to pending_review
+--   (hidden from the public) and an auto_hide entry is written to moderation_actions
+-- - Restoring a sighting dismisses its flags so it is not immediately re-hidden
+
+-- 1. Flags
+create table if not exists public.reports_flags (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  sighting_id uuid not null references public.sightings(id) on delete cascade,
+  reason text not null,
+  details text,
+  device_hash text not null,
+  constraint reports_flags_reason_chk
+    check (reason in ('personal_info', 'faces_in_media', 'spam', 'duplicate', 'wrong_location')),
+  constraint reports_flags_details_len_chk check (details is null or char_length(details) <= 500),
+  constraint reports_flags_device_hash_chk check (device_hash ~ '^[0-9a-f]{64}$')
+);
+
+create unique index if not exists reports_flags_unique_device_per_sighting
+  on public.reports_flags (sighting_id, device_hash);
+
+alter table public.reports_flags enable row level security;
+
+create policy "reports_flags_insert_anon"
+  on public.reports_flags
+  for insert
+  to anon, authenticated
+  with check (
+    device_hash ~ '^[0-9a-f]{64}$'
+    and exists (
+      select 1 from public.sightings s
+       where s.id = sighting_id and s.moderation_state = 'visible'
+    )
+  );
+
+create policy "reports_flags_select_admin"
+  on public.reports_flags
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+create policy "reports_flags_delete_admin"
+  on public.reports_flags
+  for delete
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- 2. Flag count + auto-hide
+alter table public.sightings
+  add column if not exists flag_count integer not null default 0;
+
+alter table public.moderation_actions
+  drop constraint if exists moderation_actions_action_chk;
+alter table public.moderation_actions
+  add constraint moderation_actions_action_chk
+  check (action in ('hide', 'restore', 'delete', 'auto_hide'));
+
+create or replace function public.recompute_sighting_flags()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_auto_hide_threshold constant integer := 3;
+  v_sighting_id uuid;
+  v_count integer;
+  v_hidden boolean;
+begin
+  v_sighting_id := coalesce(new.sighting_id, old.sighting_id);
+
+  select count(*)::int
+    into v_count
+    from public.reports_flags
+   where sighting_id = v_sighting_id;
+
+  update public.sightings
+     set flag_count = v_count,
+         moderation_state = case
+           when moderation_state = 'visible' and v_count >= v_auto_hide_threshold then 'pending_review'
+           else moderation_state
+         end
+   where id = v_sighting_id
+  returning moderation_state = 'pending_review' and v_count >= v_auto_hide_threshold
+    into v_hidden;
+
+  if tg_op = 'INSERT' and v_hidden and v_count = v_auto_hide_threshold then
+    insert into public.moderation_actions (sighting_id, actor_id, action, reason)
+    values (v_sighting_id, null, 'auto_hide', format('Auto-hidden after %s flags', v_count));
+
+    perform realtime.send(
+      jsonb_build_object('id', v_sighting_id, 'action', 'auto_hide'),
+      'moderation',
+      'sightings-moderation',
+      false
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists reports_flags_after_change_recompute on public.reports_flags;
+create trigger reports_flags_after_change_recompute
+after insert or delete on public.reports_flags
+for each row execute function public.recompute_sighting_flags();
+
+-- 3. Restore dismisses flags
+create or replace function public.moderate_sighting(
+  p_sighting_id uuid,
+  p_action text,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := trim(coalesce(p_reason, ''));
+  v_sighting public.sightings%rowtype;
+begin
+  if not exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin') then
+    raise exception 'Admin only' using errcode = '42501';
+  end if;
+
+  if p_action not in ('hide', 'restore', 'delete') then
+    raise exception 'Unknown moderation action: %', p_action using errcode = '22023';
+  end if;
+
+  if char_length(v_reason) < 3 then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  select * into v_sighting
+    from public.sightings
+   where id = p_sighting_id
+   for update;
+
+  if not found then
+    raise exception 'Sighting not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.moderation_actions (sighting_id, actor_id, action, reason, sighting_snapshot)
+  values (
+    p_sighting_id,
+    auth.uid(),
+    p_action,
+    v_reason,
+    case when p_action = 'delete' then to_jsonb(v_sighting) end
+  );
+
+  if p_action = 'delete' then
+    delete from public.sightings where id = p_sighting_id;
+  elsif p_action = 'restore' then
+    delete from public.reports_flags where sighting_id = p_sighting_id;
+    update public.sightings
+       set moderation_state = 'visible'
+     where id = p_sighting_id;
+  else
+    update public.sightings
+       set moderation_state = 'hidden'
+     where id = p_sighting_id;
+  end if;
+
+  if p_action in ('hide', 'delete') then
+    perform realtime.send(
+      jsonb_build_object('id', p_sighting_id, 'action', p_action),
+      'moderation',
+      'sightings-moderation',
+      false
+    );
+  end if;
+end;
+$$;
@@ -0,0 +1,173 @@
+-- Append-only audit log for privileged actions
+-- - audit_events: written only by triggers on profiles, sightings (status / moderation changes, deletes)
+--   and pending_invites; actor_id = auth.uid() (null = system / service role)
+-- - Immutable: no update/delete/truncate for any role, enforced by trigger as well as grants
+-- - Admins can read
+
+-- 1. Table
+create table if not exists public.audit_events (
+  id bigserial primary key,
+  occurred_at timestamptz not null default now(),
+  -- No FK: events must outlive deleted users and rows
+  actor_id uuid,
+  action text not null,
+  target_table text not null,
+  target_id text not null,
+  details jsonb not null default '{}'::jsonb
+);
+
+create index if not exists audit_events_occurred_at_idx on public.audit_events (occurred_at desc);
+create index if not exists audit_events_actor_id_idx on public.audit_events (actor_id, occurred_at desc);
+create index if not exists audit_events_action_idx on public.audit_events (action, occurred_at desc);
+
+alter table public.audit_events enable row level security;
+
+create policy "audit_events_select_admin"
+  on public.audit_events
+  for select
+  to authenticated
+  using (
+    exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+  );
+
+-- 2. Immutability
+revoke insert, update, delete, truncate on public.audit_events from public, anon, authenticated, service_role;
+
+create or replace function public.audit_events_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_events is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists audit_events_before_update_delete on public.audit_events;
+create trigger audit_events_before_update_delete
+before update or delete on public.audit_events
+for each row execute function public.audit_events_immutable();
+
+drop trigger if exists audit_events_before_truncate on public.audit_events;
+create trigger audit_events_before_truncate
+before truncate on public.audit_events
+for each statement execute function public.audit_events_immutable();
+
+-- 3. Writer (triggers only)
+create or replace function public.record_audit_event(
+  p_actor_id uuid,
+  p_action text,
+  p_target_table text,
+  p_target_id text,
+  p_details jsonb
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.audit_events (actor_id, action, target_table, target_id, details)
+  values (p_actor_id, p_action, p_target_table, p_target_id, coalesce(p_details, '{}'::jsonb));
+$$;
+
+revoke execute on function public.record_audit_event(uuid, text, text, text, jsonb) from public, anon, authenticated;
+
+-- 4. Profiles: created, role changed, deleted
+create or replace function public.audit_profiles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.record_audit_event(
+      auth.uid(), 'profile.created', 'profiles', new.id::text, jsonb_build_object('role', new.role)
+    );
+  elsif tg_op = 'UPDATE' and new.role is distinct from old.role then
+    perform public.record_audit_event(
+      auth.uid(), 'profile.role_changed', 'profiles', new.id::text,
+      jsonb_build_object('from', old.role, 'to', new.role)
+    );
+  elsif tg_op = 'DELETE' then
+    perform public.record_audit_event(
+      auth.uid(), 'profile.deleted', 'profiles', old.id::text, jsonb_build_object('role', old.role)
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists profiles_after_change_audit on public.profiles;
+create trigger profiles_after_change_audit
+after insert or update or delete on public.profiles
+for each row execute function public.audit_profiles();
+
+-- 5. Sightings: status and moderation changes, deletes
+create or replace function public.audit_sightings()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.status is distinct from old.status then
+      perform public.record_audit_event(
+        auth.uid(), 'sighting.status_changed', 'sightings', new.id::text,
+        jsonb_build_object('from', old.status, 'to', new.status)
+      );
+    end if;
+    if new.moderation_state is distinct from old.moderation_state then
+      perform public.record_audit_event(
+        auth.uid(), 'sighting.moderation_changed', 'sightings', new.id::text,
+        jsonb_build_object('from', old.moderation_state, 'to', new.moderation_state)
+      );
+    end if;
+  elsif tg_op = 'DELETE' then
+    perform public.record_audit_event(
+      auth.uid(), 'sighting.deleted', 'sightings', old.id::text,
+      jsonb_build_object('status', old.status, 'activity_type', old.activity_type)
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists sightings_after_change_audit on public.sightings;
+create trigger sightings_after_change_audit
+after update or delete on public.sightings
+for each row execute function public.audit_sightings();
+
+-- 6. Pending invites: created, removed (revoked or accepted)
+create or replace function public.audit_pending_invites()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    -- Invites are written by the service role, so fall back to the inviting admin
+    perform public.record_audit_event(
+      coalesce(auth.uid(), new.invited_by), 'invite.created', 'pending_invites', new.email,
+      jsonb_build_object('invited_by', new.invited_by)
+    );
+  elsif tg_op = 'UPDATE' then
+    perform public.record_audit_event(
+      coalesce(auth.uid(), new.invited_by), 'invite.resent', 'pending_invites', new.email,
+      jsonb_build_object('invited_by', new.invited_by)
+    );
+  elsif tg_op = 'DELETE' then
+    perform public.record_audit_event(
+      auth.uid(), 'invite.removed', 'pending_invites', old.email,
+      jsonb_build_object('invited_by', old.invited_by)
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists pending_invites_after_change_audit on public.pending_invites;
+create trigger pending_invites_after_change_audit
+after insert or update or delete on public.pending_invites
+for each row execute function public.audit_pending_invites();
@@ -0,0 +1,182 @@
+-- Status history and revocable confirmations
+-- - sighting_status_history: one row per status transition (insert included), with actor, actor role and reason
+--   written by trigger; the reason comes from the transaction-local setting ice_out.status_reason
+-- - confirm_sighting() / retract_confirmation(): trusted/admin RPCs with a required reason; they replace the
+--   direct status update (sightings_update_trusted is dropped, so confirmations always leave a trail)
+-- - Readable by anyone who can see the sighting; actor_id is not exposed to the API (admins see who in audit_events)
+
+-- 1. History
+create table if not exists public.sighting_status_history (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  sighting_id uuid not null references public.sightings(id) on delete cascade,
+  -- null = the sighting was created with to_status
+  from_status text,
+  to_status text not null,
+  actor_id uuid references auth.users(id) on delete set null,
+  -- 'system' when no signed-in user made the change (validations, cron, service role)
+  actor_role text not null default 'system',
+  reason text
+);
+
+create index if not exists sighting_status_history_sighting_id_idx
+  on public.sighting_status_history (sighting_id, created_at);
+
+alter table public.sighting_status_history enable row level security;
+
+-- Sightings RLS applies inside the subquery, so hidden sightings keep their history private
+create policy "sighting_status_history_read"
+  on public.sighting_status_history
+  for select
+  to anon, authenticated
+  using (
+    exists (select 1 from public.sightings s where s.id = sighting_id)
+  );
+
+revoke all on public.sighting_status_history from anon, authenticated;
+grant select (id, created_at, sighting_id, from_status, to_status, actor_role, reason)
+  on public.sighting_status_history to anon, authenticated;
+
+-- 2. Trigger
+create or replace function public.record_sighting_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor_role text;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return null;
+  end if;
+
+  select p.role into v_actor_role
+    from public.profiles p
+   where p.id = auth.uid();
+
+  insert into public.sighting_status_history (sighting_id, from_status, to_status, actor_id, actor_role, reason)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    auth.uid(),
+    coalesce(v_actor_role, 'system'),
+    nullif(current_setting('ice_out.status_reason', true), '')
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sightings_after_status_history on public.sightings;
+create trigger sightings_after_status_history
+after insert or update of status on public.sightings
+for each row execute function public.record_sighting_status_change();
+
+-- Backfill: creation plus the current status for existing rows
+insert into public.sighting_status_history (sighting_id, created_at, from_status, to_status, reason)
+select s.id, s.created_at, null, 'unverified', null
+  from public.sightings s
+ where not exists (select 1 from public.sighting_status_history h where h.sighting_id = s.id);
+
+insert into public.sighting_status_history (sighting_id, created_at, from_status, to_status, reason)
+select s.id, coalesce(s.verified_at, s.created_at), 'unverified', s.status, 'Recorded before status history'
+  from public.sightings s
+ where s.status <> 'unverified'
+   and not exists (
+     select 1 from public.sighting_status_history h
+      where h.sighting_id = s.id and h.from_status is not null
+   );
+
+-- 3. Confirm / retract
+drop policy if exists "sightings_update_trusted" on public.sightings;
+
+create or replace function public.confirm_sighting(p_sighting_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := trim(coalesce(p_reason, ''));
+  v_status text;
+begin
+  if not exists (
+    select 1 from public.profiles p where p.id = auth.uid() and p.role in ('trusted', 'admin')
+  ) then
+    raise exception 'Trusted verifiers only' using errcode = '42501';
+  end if;
+
+  if char_length(v_reason) < 3 then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  select status into v_status
+    from public.sightings
+   where id = p_sighting_id and moderation_state = 'visible'
+   for update;
+
+  if not found then
+    raise exception 'Sighting not found' using errcode = 'P0002';
+  end if;
+
+  if v_status not in ('verified', 'active') then
+    raise exception 'Only verified sightings can be confirmed (status is %)', v_status using errcode = '22023';
+  end if;
+
+  perform set_config('ice_out.status_reason', v_reason, true);
+  update public.sightings set status = 'confirmed' where id = p_sighting_id;
+  perform set_config('ice_out.status_reason', '', true);
+end;
+$$;
+
+-- Puts the sighting back under community rules: verified while the score still meets the threshold,
+-- then refresh_sighting_validations settles it (active / verified / unverified) from the current votes
+create or replace function public.retract_confirmation(p_sighting_id uuid, p_reason text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := trim(coalesce(p_reason, ''));
+  v_status text;
+  v_verified_at timestamptz;
+begin
+  if not exists (
+    select 1 from public.profiles p where p.id = auth.uid() and p.role in ('trusted', 'admin')
+  ) then
+    raise exception 'Trusted verifiers only' using errcode = '42501';
+  end if;
+
+  if char_length(v_reason) < 3 then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  select status, verified_at into v_status, v_verified_at
+    from public.sightings
+   where id = p_sighting_id
+   for update;
+
+  if not found then
+    raise exception 'Sighting not found' using errcode = 'P0002';
+  end if;
+
+  if v_status <> 'confirmed' then
+    raise exception 'Sighting is not confirmed (status is %)', v_status using errcode = '22023';
+  end if;
+
+  perform set_config('ice_out.status_reason', v_reason, true);
+  update public.sightings
+     set status = case when v_verified_at is not null then 'verified' else 'unverified' end
+   where id = p_sighting_id;
+  perform public.refresh_sighting_validations(p_sighting_id);
+  perform set_config('ice_out.status_reason', '', true);
+end;
+$$;
+
+revoke execute on function public.confirm_sighting(uuid, text) from public, anon;
+revoke execute on function public.retract_confirmation(uuid, text) from public, anon;
+grant execute on function public.confirm_sighting(uuid, text) to authenticated;
+grant execute on function public.retract_confirmation(uuid, text) to authenticated;
@@ -0,0 +1,38 @@
+-- Media ingestion through a private quarantine bucket
+-- - sightings-quarantine (private): the only place browsers can upload to
+-- - /api/media checks magic bytes, strips metadata, enforces size/duration limits and publishes
+--   the file (plus its thumbnail) to sightings-media with the service role
+-- - sightings-media stays public for reads but no longer accepts uploads from anon/authenticated
+
+-- 1. Quarantine bucket (private; 50 MB cap matches the largest allowed video)
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'sightings-quarantine',
+  'sightings-quarantine',
+  false,
+  52428800,
+  array[
+    'image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/avif',
+    'video/mp4', 'video/quicktime', 'video/webm'
+  ]
+)
+on conflict (id) do update
+  set public = false,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+create policy "sightings_quarantine_insert"
+on storage.objects
+for insert
+to anon, authenticated
+with check (
+  bucket_id = 'sightings-quarantine'
+  and (storage.foldername(name))[1] = 'quarantine'
+  and lower(storage.extension(name)) in (
+    'jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif',
+    'mp4', 'mov', 'webm'
+  )
+);
+
+-- 2. Public bucket: service role only for writes
+drop policy if exists "sightings_media_insert" on storage.objects;
@@ -0,0 +1,16 @@
+-- Reporter-selectable location precision
+-- - sightings.location_precision_m: 0 (exact), 100 or 500; fuzzed rows store the centre of a grid cell
+--   of that size (snapped in the browser and again by POST /api/sightings)
+-- - Maps draw fuzzed sightings as circles and /api/validations widens the proximity radius to match
+
+alter table public.sightings
+  add column if not exists location_precision_m integer not null default 0;
+
+alter table public.sightings
+  drop constraint if exists sightings_location_precision_m_chk;
+alter table public.sightings
+  add constraint sightings_location_precision_m_chk
+  check (location_precision_m in (0, 100, 500));
+
+comment on column public.sightings.location_precision_m is
+  'Grid size (meters) the reporter snapped lat/lng to; 0 means the exact point was stored';
@@ -0,0 +1,11 @@
+-- Viewport-bounded map loading
+-- - LiveMap queries visible sightings by lat/lng range (newest first, paged) for the current map bounds
+--   instead of loading every row; this index keeps those range scans off the full table
+
+create index if not exists sightings_visible_lat_lng_idx
+  on public.sightings (lat, lng)
+  where moderation_state = 'visible';
+
+create index if not exists sightings_visible_event_time_idx
+  on public.sightings (event_time desc, id)
+  where moderation_state = 'visible';
@@ -0,0 +1,93 @@
+-- PostGIS-backed geospatial queries
+-- - sightings.location: geography(Point) generated from lat/lng, with a GiST index
+-- - sightings_within(): visible sightings within N meters of a point (also used by /api/validations
+--   for the proximity check, so the validator's coordinates still never touch a table)
+-- - sightings_in_bbox(): visible sightings in the map viewport, newest first (paged by the client)
+-- - nearest_sightings(): K nearest visible sightings to a point, closest first
+-- All three are security invoker: sightings RLS (moderation_state, admin access) still applies.
+
+create extension if not exists postgis with schema extensions;
+
+-- 1. Geography column and index
+alter table public.sightings
+  add column if not exists location extensions.geography(Point, 4326)
+  generated always as (
+    extensions.st_setsrid(extensions.st_makepoint(lng, lat), 4326)::extensions.geography
+  ) stored;
+
+create index if not exists sightings_location_gist_idx
+  on public.sightings using gist (location);
+
+-- Replaced by the GiST index; the event_time index still serves newest-first paging
+drop index if exists public.sightings_visible_lat_lng_idx;
+
+-- 2. Within N meters of a point
+create or replace function public.sightings_within(
+  p_lat double precision,
+  p_lng double precision,
+  p_radius_m double precision,
+  p_live_only boolean default false
+)
+returns setof public.sightings
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select s.*
+    from public.sightings s
+   where s.moderation_state = 'visible'
+     and (not p_live_only or s.status in ('unverified', 'verified', 'active', 'confirmed'))
+     and st_dwithin(s.location, st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography, p_radius_m)
+   order by s.location <-> st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography;
+$$;
+
+-- 3. Inside a lat/lng bounding box
+-- The envelope (&&) uses the GiST index; the lat/lng range keeps the edges exact
+create or replace function public.sightings_in_bbox(
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_live_only boolean default false
+)
+returns setof public.sightings
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select s.*
+    from public.sightings s
+   where s.moderation_state = 'visible'
+     and (not p_live_only or s.status in ('unverified', 'verified', 'active', 'confirmed'))
+     and s.location && st_makeenvelope(p_west, p_south, p_east, p_north, 4326)::geography
+     and s.lat between p_south and p_north
+     and s.lng between p_west and p_east
+   order by s.event_time desc, s.id;
+$$;
+
+-- 4. Nearest K to a point (KNN ordering on the GiST index)
+create or replace function public.nearest_sightings(
+  p_lat double precision,
+  p_lng double precision,
+  p_limit integer default 1,
+  p_live_only boolean default true
+)
+returns setof public.sightings
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select s.*
+    from public.sightings s
+   where s.moderation_state = 'visible'
+     and (not p_live_only or s.status in ('unverified', 'verified', 'active', 'confirmed'))
+   order by s.location <-> st_setsrid(st_makepoint(p_lng, p_lat), 4326)::geography
+   limit least(greatest(p_limit, 1), 50);
+$$;
+
+grant execute on function public.sightings_within(double precision, double precision, double precision, boolean)
+  to anon, authenticated;
+grant execute on function public.sightings_in_bbox(double precision, double precision, double precision, double precision, boolean)
+  to anon, authenticated;
+grant execute on function public.nearest_sightings(double precision, double precision, integer, boolean)
+  to anon, authenticated;
@@ -0,0 +1,38 @@
+-- Live counts for the "Current Status" legend
+-- - sighting_status_counts(): visible sightings per marker group within a time window and, optionally,
+--   a lat/lng bounding box (the current map viewport)
+-- - Groups mirror lib/sightings/status.ts: verified/active/confirmed → verified,
+--   expired/historical → historic, everything else → unverified
+-- Security invoker, so sightings RLS applies exactly as it does to the map
+
+create or replace function public.sighting_status_counts(
+  p_since timestamptz default null,
+  p_south double precision default null,
+  p_west double precision default null,
+  p_north double precision default null,
+  p_east double precision default null
+)
+returns table (unverified integer, verified integer, historic integer)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select
+    count(*) filter (where s.status not in ('verified', 'active', 'confirmed', 'expired', 'historical'))::int,
+    count(*) filter (where s.status in ('verified', 'active', 'confirmed'))::int,
+    count(*) filter (where s.status in ('expired', 'historical'))::int
+  from public.sightings s
+  where s.moderation_state = 'visible'
+    and (p_since is null or s.event_time >= p_since)
+    and (
+      p_south is null or p_west is null or p_north is null or p_east is null
+      or (
+        s.location && st_makeenvelope(p_west, p_south, p_east, p_north, 4326)::geography
+        and s.lat between p_south and p_north
+        and s.lng between p_west and p_east
+      )
+    );
+$$;
+
+grant execute on function public.sighting_status_counts(timestamptz, double precision, double precision, double precision, double precision)
+  to anon, authenticated;
@@ -0,0 +1,17 @@
+-- Idempotent bulk import
+-- - sightings.import_key: set by scripts/import_sightings.ts from the source's external id (or a hash
+--   of the row's content when there is none); re-running an import skips rows whose key already exists
+-- - Null for sightings reported through the app
+
+alter table public.sightings
+  add column if not exists import_key text;
+
+alter table public.sightings
+  drop constraint if exists sightings_import_key_key;
+alter table public.sightings
+  add constraint sightings_import_key_key unique (import_key);
+
+alter table public.sightings
+  drop constraint if exists sightings_import_key_len_chk;
+alter table public.sightings
+  add constraint sightings_import_key_len_chk check (import_key is null or char_length(import_key) between 1 and 200);
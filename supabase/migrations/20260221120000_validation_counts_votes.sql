@@ -0,0 +1,14 @@
+-- validation_counts split by vote
+-- - validations_count / within_range_count: confirmations only (dispute votes were counted as validations)
+-- - dispute_count: not_seen / gone / false_report votes
+
+create or replace view public.validation_counts as
+  select v.sighting_id,
+         count(*) filter (where v.vote = 'confirm')::int as validations_count,
+         count(*) filter (where v.vote = 'confirm' and v.is_within_range)::int as within_range_count,
+         max(v.created_at) as last_validated_at,
+         count(*) filter (where v.vote <> 'confirm')::int as dispute_count
+    from public.validations v
+   group by v.sighting_id;
+
+grant select on public.validation_counts to anon, authenticated;
@@ -0,0 +1,7 @@
+-- Flags go through POST /api/flags only
+-- - The anon insert policy let any client write reports_flags with made-up device hashes, so three
+--   forged flags could auto-hide any sighting. The route rate limits per IP and device and stores
+--   device_hash = HMAC(IDENTITY_PEPPER, sighting id + per-sighting device hash)
+-- - Inserts now require the service role (which bypasses RLS); admin select/delete are unchanged
+
+drop policy if exists "reports_flags_insert_anon" on public.reports_flags;
@@ -0,0 +1,32 @@
+-- Bounding-box queries in geometry, not geography
+-- - A geography envelope has great-circle edges: its south edge bows toward the pole, so points near
+--   the bottom of a wide viewport fell outside it, and west = -180 / east = 180 collapsed it to a line.
+--   As planar geometry the envelope is the plain lat/lng rectangle, so && returns a superset of the box
+-- - sightings_location_geom_gist_idx: expression index matching the location::geometry test
+
+create index if not exists sightings_location_geom_gist_idx
+  on public.sightings using gist ((location::extensions.geometry))
+  where moderation_state = 'visible';
+
+-- The envelope (&&) uses the geometry index; the lat/lng range keeps the edges exact
+create or replace function public.sightings_in_bbox(
+  p_south double precision,
+  p_west double precision,
+  p_north double precision,
+  p_east double precision,
+  p_live_only boolean default false
+)
+returns setof public.sightings
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select s.*
+    from public.sightings s
+   where s.moderation_state = 'visible'
+     and (not p_live_only or s.status in ('unverified', 'verified', 'active', 'confirmed'))
+     and (s.location::geometry) && st_makeenvelope(p_west, p_south, p_east, p_north, 4326)
+     and s.lat between p_south and p_north
+     and s.lng between p_west and p_east
+   order by s.event_time desc, s.id;
+$$;
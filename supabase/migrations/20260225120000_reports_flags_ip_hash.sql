@@ -0,0 +1,76 @@
+-- Auto-hide counts networks, not devices
+-- - device_id is whatever the client sends, so one client could still post three flags with made-up
+--   ids and hide a sighting. POST /api/flags now also stores ip_hash = HMAC(IDENTITY_PEPPER, sighting id +
+--   per-sighting HMAC of the client IP), which cannot be linked across sightings
+-- - recompute_sighting_flags() counts distinct ip_hash toward the auto-hide threshold; flag_count stays
+--   the number of flags so moderators still see every report
+-- - Flags without an ip_hash (older rows, requests with no client IP) are kept but never auto-hide
+
+-- 1. Per-sighting network hash
+alter table public.reports_flags
+  add column if not exists ip_hash text;
+
+alter table public.reports_flags
+  drop constraint if exists reports_flags_ip_hash_chk;
+alter table public.reports_flags
+  add constraint reports_flags_ip_hash_chk check (ip_hash is null or ip_hash ~ '^[0-9a-f]{64}$');
+
+-- 2. Auto-hide on distinct networks
+create or replace function public.recompute_sighting_flags()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_auto_hide_threshold constant integer := 3;
+  v_sighting_id uuid;
+  v_count integer;
+  v_networks integer;
+  v_hidden boolean;
+begin
+  v_sighting_id := coalesce(new.sighting_id, old.sighting_id);
+
+  select count(*)::int, count(distinct ip_hash)::int
+    into v_count, v_networks
+    from public.reports_flags
+   where sighting_id = v_sighting_id;
+
+  update public.sightings
+     set flag_count = v_count,
+         moderation_state = case
+           when moderation_state = 'visible' and v_networks >= v_auto_hide_threshold then 'pending_review'
+           else moderation_state
+         end
+   where id = v_sighting_id
+  returning moderation_state = 'pending_review' and v_networks >= v_auto_hide_threshold
+    into v_hidden;
+
+  -- Only the flag that brings in the threshold-th network logs and broadcasts
+  if tg_op = 'INSERT' and v_hidden and v_networks = v_auto_hide_threshold
+     and new.ip_hash is not null
+     and not exists (
+       select 1 from public.reports_flags f
+        where f.sighting_id = v_sighting_id
+          and f.ip_hash = new.ip_hash
+          and f.id <> new.id
+     ) then
+    insert into public.moderation_actions (sighting_id, actor_id, action, reason)
+    values (
+      v_sighting_id,
+      null,
+      'auto_hide',
+      format('Auto-hidden after %s flags from %s networks', v_count, v_networks)
+    );
+
+    perform realtime.send(
+      jsonb_build_object('id', v_sighting_id, 'action', 'auto_hide'),
+      'moderation',
+      'sightings-moderation',
+      false
+    );
+  end if;
+
+  return null;
+end;
+$$;